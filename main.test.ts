@@ -0,0 +1,557 @@
+/// <reference types="@cloudflare/vitest-pool-workers" />
+
+import { env, runDurableObjectAlarm, SELF } from "cloudflare:test";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { UserContext } from "simplerauth-client";
+import { CrmDurableObject, Env, handler } from "./main";
+import { FixtureProvider } from "./provider";
+import { getSyncAllowance, getSyncPolicy } from "./sync-policy";
+import fixtures from "./fixtures/x.json";
+
+declare module "cloudflare:test" {
+  interface ProvidedEnv extends Env {}
+}
+
+// The X account whose followings and followers are in fixtures/x.json. The
+// "_later" variant is the same account after unfollowing bob_vc.
+const ACCOUNT = "fixture_account";
+const ACCOUNT_AFTER_UNFOLLOW = "fixture_account_later";
+
+const getDO = (name: string) =>
+  env.CRMDURABLEOBJECT.get(env.CRMDURABLEOBJECT.idFromName(name));
+
+const loggedIn = (id: string) =>
+  ({
+    authenticated: true,
+    user: { id, username: ACCOUNT, name: "Fixture Account" },
+  } as unknown as UserContext);
+
+// Runs the alarm until the sync job is done
+const runSync = async (
+  stub: DurableObjectStub<CrmDurableObject>,
+  username: string
+) => {
+  await stub.syncFollows(username);
+  for (let step = 0; step < 20; step++) {
+    const status = await stub.getSyncStatus();
+    if (status.state !== "running" && status.state !== "backoff") {
+      return status;
+    }
+    // The helper is typed for untyped stubs
+    await runDurableObjectAlarm(stub as unknown as DurableObjectStub);
+  }
+  throw new Error("Sync did not finish in 20 steps");
+};
+
+describe("FixtureProvider", () => {
+  it("pages through followings with the page index as cursor", async () => {
+    const provider = new FixtureProvider(fixtures);
+
+    const first = await provider.getFollowings(ACCOUNT, null);
+    expect(first.users.map((u) => u.userName)).toEqual(["alice_builds", "bob_vc"]);
+    expect(first).toMatchObject({ has_next_page: true, next_cursor: "1" });
+
+    const second = await provider.getFollowings(ACCOUNT, first.next_cursor);
+    expect(second.users.map((u) => u.userName)).toEqual(["carol_design"]);
+    expect(second).toMatchObject({ has_next_page: false, next_cursor: null });
+  });
+
+  it("returns null for unknown users and fails for unknown accounts", async () => {
+    const provider = new FixtureProvider(fixtures);
+
+    expect(await provider.getUser("ALICE_BUILDS")).toMatchObject({ id: "101" });
+    expect(await provider.getUser("nobody")).toBeNull();
+    await expect(provider.getFollowers("nobody", null)).rejects.toThrow("404");
+  });
+
+  it("treats users as not found when the fixtures have none", async () => {
+    const provider = new FixtureProvider({ followings: {} });
+
+    expect(await provider.getUser("alice_builds")).toBeNull();
+  });
+});
+
+describe("sync policy", () => {
+  const policy = getSyncPolicy({
+    SYNC_COOLDOWN_HOURS: "12",
+    SYNC_ADMIN_USERNAMES: "@Admin_One, admin_two",
+    SYNC_MAX_PAGES: "5",
+  });
+
+  it("reads the cooldown, admins and page limit from env vars", () => {
+    expect(policy).toEqual({
+      cooldownHours: 12,
+      admins: ["admin_one", "admin_two"],
+      maxPages: 5,
+    });
+    expect(getSyncPolicy({})).toEqual({
+      cooldownHours: 24,
+      admins: [],
+      maxPages: null,
+    });
+  });
+
+  it("lets admins skip the cooldown", () => {
+    const now = new Date("2025-06-01T12:00:00Z");
+    const lastSync = new Date("2025-06-01T06:00:00Z");
+
+    expect(getSyncAllowance(policy, "someone", lastSync, now)).toEqual({
+      can_sync: false,
+      admin: false,
+      cooldown_hours: 12,
+      next_sync_at: "2025-06-01T18:00:00.000Z",
+    });
+    expect(getSyncAllowance(policy, "ADMIN_ONE", lastSync, now)).toMatchObject({
+      can_sync: true,
+      admin: true,
+      next_sync_at: null,
+    });
+    expect(getSyncAllowance(policy, "someone", null, now).can_sync).toBe(true);
+  });
+});
+
+describe("sync", () => {
+  it("fetches every page of followings and followers", async () => {
+    const stub = getDO("sync-pages");
+
+    const status = await runSync(stub, ACCOUNT);
+    expect(status).toMatchObject({ state: "completed", pages: 3, contacts: 4 });
+    expect(status.quota.usage_30d).toEqual({ syncs: 1, pages: 3, api_calls: 3 });
+
+    const { follows, total } = await stub.getFollows({ sort: "username" });
+    expect(total).toBe(4);
+    expect(
+      Object.fromEntries(follows.map((f) => [f.username, f.relationship]))
+    ).toEqual({
+      alice_builds: "following",
+      bob_vc: "mutual",
+      carol_design: "following",
+      dave_ops: "follower",
+    });
+  });
+
+  it("keeps notes and tags of unfollowed contacts and restores them", async () => {
+    const stub = getDO("sync-notes");
+    await runSync(stub, ACCOUNT);
+
+    await stub.updateContact("bob_vc", {
+      note: "Met at demo day",
+      tags: "investor",
+    });
+    await stub.updateContact("alice_builds", { note: "Wants intros" });
+
+    await runSync(stub, ACCOUNT_AFTER_UNFOLLOW);
+
+    const active = await stub.getFollows();
+    expect(active.follows.map((f) => f.username)).not.toContain("bob_vc");
+    const archived = await stub.getFollows({ archived: true });
+    expect(archived.follows).toHaveLength(1);
+    expect(archived.follows[0]).toMatchObject({
+      username: "bob_vc",
+      note: "Met at demo day",
+      tags: "investor",
+    });
+    expect((await stub.getSyncChanges()).removed).toEqual([
+      { user_id: "102", username: "bob_vc" },
+    ]);
+
+    await runSync(stub, ACCOUNT);
+
+    const { follows } = await stub.getFollows({ sort: "username" });
+    expect(follows.find((f) => f.username === "bob_vc")).toMatchObject({
+      note: "Met at demo day",
+      tags: "investor",
+      relationship: "mutual",
+      archived_at: null,
+    });
+    expect(follows.find((f) => f.username === "alice_builds")).toMatchObject({
+      note: "Wants intros",
+    });
+  });
+});
+
+describe("bulk updates", () => {
+  it("keeps tags when an update doesn't set them", async () => {
+    const stub = getDO("bulk-fields");
+    await runSync(stub, ACCOUNT);
+    await stub.defineField("company", "text");
+    await stub.updateContact("carol_design", { tags: "designer, friend" });
+
+    const result = await stub.updateBulk([
+      { username: "carol_design", fields: { company: "Acme" } },
+      { username: "carol_design", follow_up_at: "2030-01-31" },
+    ]);
+    expect(result).toMatchObject({ success: 2, errors: 0 });
+
+    const [carol] = (await stub.getFollows({ user_id: "103" })).follows;
+    expect((carol.tags as string).split(", ").sort()).toEqual([
+      "designer",
+      "friend",
+    ]);
+    expect(carol.custom_fields).toEqual({ company: "Acme" });
+    expect(carol.follow_up_at).toMatch(/^2030-01-31/);
+  });
+});
+
+describe("X Lists", () => {
+  it("imports the user's Lists as tags", async () => {
+    const stub = getDO("import-lists");
+    await runSync(stub, ACCOUNT);
+
+    expect(await stub.importXLists(ACCOUNT)).toEqual({
+      imported: [
+        {
+          list_id: "1001",
+          name: "Founders",
+          tag: "list:Founders",
+          members: 2,
+          tagged: 2,
+        },
+      ],
+      skipped: [],
+    });
+
+    // A second import keeps the mapping and finds nothing new to tag
+    await stub.renameTag("list:Founders", "founders");
+    const again = await stub.importXLists(ACCOUNT);
+    expect(again.imported).toMatchObject([{ tag: "founders", tagged: 0 }]);
+  });
+});
+
+describe("renaming tags", () => {
+  it("keeps X List mappings on the renamed tag", async () => {
+    const stub = getDO("rename-list-tag");
+    await runSync(stub, ACCOUNT);
+    await stub.addXList("1001", "Founders", "founders");
+    await stub.syncXList("1001");
+
+    await stub.renameTag("founders", "builders");
+
+    const [list] = await stub.listXLists();
+    expect(list).toMatchObject({ list_id: "1001", tag: "builders" });
+    expect(await stub.getXListDrift("1001")).toMatchObject({
+      tag: "builders",
+      only_on_list: [],
+      only_in_tag: [],
+    });
+
+    await stub.mergeTags(["builders"], "network");
+    expect(await stub.getXListDrift("1001")).toMatchObject({ tag: "network" });
+  });
+
+  it("keeps fetching tweets for renamed and merged tags", async () => {
+    const stub = getDO("rename-tweet-tag");
+    await runSync(stub, ACCOUNT);
+    await stub.updateContact("alice_builds", { tags: "close" });
+    await stub.updateContact("bob_vc", { tags: "investors" });
+    await stub.enableTweets("close");
+    await stub.enableTweets("investors");
+
+    await stub.renameTag("close", "Inner Circle");
+    await stub.mergeTags(["investors"], "inner circle");
+
+    expect(await stub.listTweetTags()).toMatchObject([
+      { tag: "Inner Circle", contacts: 2 },
+    ]);
+  });
+});
+
+describe("recent tweets", () => {
+  it("reports an untracked contact without storing their tweets", async () => {
+    const stub = getDO("activity-untracked");
+    await runSync(stub, ACCOUNT);
+
+    const activity = await stub.getRecentActivity({
+      username: "alice_builds",
+      since: "2026-01-01T00:00:00.000Z",
+    });
+    expect(activity.contacts).toMatchObject([
+      { username: "alice_builds", tweet_count: 2 },
+    ]);
+    expect(activity.contacts[0].top_tweets.map((t) => t.id)).toEqual([
+      "9001",
+      "9002",
+    ]);
+    expect(await stub.searchTweets("CLI")).toEqual([]);
+  });
+});
+
+describe("adding contacts", () => {
+  it("keeps looked up and manual contacts across syncs", async () => {
+    const stub = getDO("add-contacts");
+    await runSync(stub, ACCOUNT);
+
+    expect(await stub.addContact("@erin_writes", { tags: "event" })).toMatchObject({
+      added: true,
+      user_id: "105",
+      source: "lookup",
+      restored: false,
+    });
+    expect(await stub.addManualContact({ name: "Jane Doe" })).toMatchObject({
+      added: true,
+      username: "jane-doe",
+      source: "manual",
+    });
+    expect(await stub.addManualContact({ name: "Jane Doe" })).toMatchObject({
+      username: "jane-doe-2",
+    });
+
+    await runSync(stub, ACCOUNT_AFTER_UNFOLLOW);
+
+    const { follows } = await stub.getFollows({ relationship: "none" });
+    expect(follows.map((f) => f.username).sort()).toEqual([
+      "erin_writes",
+      "jane-doe",
+      "jane-doe-2",
+    ]);
+    expect(follows.find((f) => f.username === "erin_writes")).toMatchObject({
+      tags: "event",
+      archived_at: null,
+    });
+  });
+
+  it("restores archived contacts and rejects existing or unknown ones", async () => {
+    const stub = getDO("add-contacts-existing");
+    await runSync(stub, ACCOUNT);
+    await runSync(stub, ACCOUNT_AFTER_UNFOLLOW);
+
+    // The object runs in the test's isolate, so its provider shares this prototype
+    const getUser = vi.spyOn(FixtureProvider.prototype, "getUser");
+
+    expect(await stub.addContact("alice_builds")).toMatchObject({
+      added: false,
+      username: "alice_builds",
+    });
+    expect(await stub.addContact("nobody")).toMatchObject({ added: false });
+    expect(await stub.addContact("bob_vc")).toMatchObject({
+      added: true,
+      restored: true,
+    });
+    // Only the unknown handle was looked up on X
+    expect(getUser).toHaveBeenCalledTimes(1);
+    expect(getUser).toHaveBeenCalledWith("nobody");
+    getUser.mockRestore();
+
+    await runSync(stub, ACCOUNT_AFTER_UNFOLLOW);
+    const [bob] = (await stub.getFollows({ user_id: "102" })).follows;
+    expect(bob).toMatchObject({ relationship: "none", archived_at: null });
+  });
+});
+
+describe("webhooks", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("delivers signed events for contact changes", async () => {
+    const stub = getDO("webhooks");
+    await runSync(stub, ACCOUNT);
+
+    // The object runs in the test's isolate, so deliveries go to this mock
+    const sent: Request[] = [];
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input, init) => {
+      sent.push(new Request(input, init));
+      return new Response("ok");
+    });
+
+    const webhook = await stub.createWebhook("https://hooks.test/crm", [
+      "contact.updated",
+    ]);
+    expect(webhook.secret).toHaveLength(32);
+
+    await stub.updateContact("alice_builds", { note: "Intro to carol" });
+
+    // Runs the alarm until nothing is pending, so no delivery outlives the test
+    for (let step = 0; step < 5; step++) {
+      const deliveries = await stub.getWebhookDeliveries();
+      if (deliveries.every((delivery) => delivery.status !== "pending")) break;
+      await runDurableObjectAlarm(stub as unknown as DurableObjectStub);
+    }
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0].url).toBe("https://hooks.test/crm");
+    expect(sent[0].headers.get("X-CRM-Event")).toBe("contact.updated");
+    const body = await sent[0].text();
+    expect(JSON.parse(body)).toMatchObject({ event: "contact.updated" });
+
+    const key = await crypto.subtle.importKey(
+      "raw",
+      new TextEncoder().encode(webhook.secret),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign"]
+    );
+    const signature = await crypto.subtle.sign(
+      "HMAC",
+      key,
+      new TextEncoder().encode(body)
+    );
+    const hex = [...new Uint8Array(signature)]
+      .map((byte) => byte.toString(16).padStart(2, "0"))
+      .join("");
+    expect(sent[0].headers.get("X-CRM-Signature")).toBe(`sha256=${hex}`);
+
+    const deliveries = await stub.getWebhookDeliveries();
+    expect(deliveries).toHaveLength(1);
+    expect(deliveries[0]).toMatchObject({
+      webhook_id: webhook.id,
+      event: "contact.updated",
+      status: "delivered",
+      attempts: 1,
+      response_status: 200,
+    });
+  });
+
+  it("rejects non-https urls and unknown events", async () => {
+    const ctx = loggedIn("route-webhooks");
+
+    for (const query of [
+      "url=http://hooks.test/crm",
+      "url=https://hooks.test/crm&events=contact.deleted",
+    ]) {
+      const response = await handler(
+        new Request(`https://crm.test/webhooks?${query}`, { method: "POST" }),
+        env,
+        ctx
+      );
+      expect(response.status).toBe(400);
+    }
+  });
+});
+
+describe("routes", () => {
+  it("requires login for data routes", async () => {
+    const response = await SELF.fetch("https://crm.test/follows");
+    expect(response.status).toBe(401);
+
+    const direct = await handler(
+      new Request("https://crm.test/follows"),
+      env,
+      { authenticated: false } as UserContext
+    );
+    expect(direct.status).toBe(401);
+  });
+
+  it("starts a sync and reports its progress", async () => {
+    const ctx = loggedIn("route-sync");
+
+    const started = await handler(
+      new Request("https://crm.test/sync", { method: "POST" }),
+      env,
+      ctx
+    );
+    expect(started.status).toBe(202);
+    expect(await started.json()).toMatchObject({ state: "running" });
+
+    await runSync(getDO("route-sync"), ACCOUNT);
+
+    const status = await handler(
+      new Request("https://crm.test/sync/status"),
+      env,
+      ctx
+    );
+    expect(await status.json()).toMatchObject({ state: "completed" });
+  });
+
+  it("lists follows as JSON and markdown", async () => {
+    const ctx = loggedIn("route-follows");
+    await runSync(getDO("route-follows"), ACCOUNT);
+
+    const json = await handler(
+      new Request("https://crm.test/follows?relationship=following", {
+        headers: { Accept: "application/json" },
+      }),
+      env,
+      ctx
+    );
+    const body: any = await json.json();
+    expect(body.total).toBe(2);
+    expect(body.follows.map((f) => f.username).sort()).toEqual([
+      "alice_builds",
+      "carol_design",
+    ]);
+
+    const markdown = await handler(
+      new Request("https://crm.test/follows"),
+      env,
+      ctx
+    );
+    const text = await markdown.text();
+    expect(text).toContain("**Showing:** 1-4 of 4");
+    expect(text).toContain("- @bob_vc (Bob Martins) {mutual}");
+  });
+
+  it("updates a contact and returns it", async () => {
+    const ctx = loggedIn("route-contact");
+    await runSync(getDO("route-contact"), ACCOUNT);
+
+    const update = await handler(
+      new Request(
+        "https://crm.test/contact/alice_builds?note=Hiring%20a%20designer&tags=friend,devtools",
+        { method: "POST" }
+      ),
+      env,
+      ctx
+    );
+    expect(update.status).toBe(200);
+    expect(await update.json()).toMatchObject({ updated: true });
+
+    const contact = await handler(
+      new Request("https://crm.test/contact/alice_builds"),
+      env,
+      ctx
+    );
+    expect(contact.status).toBe(200);
+    const body: any = await contact.json();
+    expect(body.contact).toMatchObject({
+      username: "alice_builds",
+      note: "Hiring a designer",
+    });
+    expect(body.contact.tags.split(", ").sort()).toEqual(["devtools", "friend"]);
+
+    const missing = await handler(
+      new Request("https://crm.test/contact/nobody"),
+      env,
+      ctx
+    );
+    expect(missing.status).toBe(404);
+  });
+
+  it("opens invite links in a browser after login", async () => {
+    const link = "https://crm.test/workspaces/team-1/join?code=abc";
+
+    const anonymous = await handler(
+      new Request(link),
+      env,
+      { authenticated: false } as UserContext
+    );
+    expect(anonymous.status).toBe(302);
+    expect(anonymous.headers.get("Location")).toBe(
+      `/authorize?redirect_to=${encodeURIComponent("/workspaces/team-1/join?code=abc")}`
+    );
+
+    const page = await handler(new Request(link), env, loggedIn("route-join"));
+    expect(page.status).toBe(200);
+    expect(await page.text()).toContain("Join workspace");
+  });
+
+  it("rejects invalid input with 400", async () => {
+    const ctx = loggedIn("route-errors");
+
+    const search = await handler(
+      new Request("https://crm.test/search"),
+      env,
+      ctx
+    );
+    expect(search.status).toBe(400);
+
+    const followUp = await handler(
+      new Request("https://crm.test/contact/alice_builds?follow_up_at=soon", {
+        method: "POST",
+      }),
+      env,
+      ctx
+    );
+    expect(followUp.status).toBe(400);
+  });
+});
@@ -4,6 +4,19 @@
 import { DurableObject } from "cloudflare:workers";
 import { withSimplerAuth, UserContext } from "simplerauth-client";
 import { withMcp } from "with-mcp";
+import {
+  createProvider,
+  Fixtures,
+  providerConfigError,
+  TwitterApiError,
+  XProvider,
+} from "./provider";
+import {
+  getSyncAllowance,
+  getSyncPolicy,
+  SyncAllowance,
+  syncPolicyConfigError,
+} from "./sync-policy";
 //@ts-ignore
 import html from "./homepage.html";
 //@ts-ignore
@@ -11,16 +24,1284 @@ import openapi from "./openapi.json";
 
 export interface Env {
   CRMDURABLEOBJECT: DurableObjectNamespace<CrmDurableObject>;
+  WORKSPACEDURABLEOBJECT: DurableObjectNamespace<WorkspaceDurableObject>;
   TWITTER_API_KEY: string;
+  // "twitterapi" (default) or "fixture" for the data bound as X_FIXTURES
+  X_PROVIDER?: string;
+  X_FIXTURES?: Fixtures;
+  // Sync cooldown, admins and page limit, see sync-policy.ts
+  SYNC_COOLDOWN_HOURS?: string;
+  SYNC_ADMIN_USERNAMES?: string;
+  SYNC_MAX_PAGES?: string;
+}
+
+// How a contact relates to the logged in user on X, "none" for contacts added by hand
+const RELATIONSHIPS = ["following", "follower", "mutual", "none"];
+
+// How a contact got into the CRM. Only synced contacts are archived when a sync
+// no longer returns them.
+const CONTACT_SOURCES = ["sync", "lookup", "manual"];
+
+// Profile fields compared between syncs to report a contact as changed
+const TRACKED_PROFILE_FIELDS = [
+  "username",
+  "name",
+  "profile_image_url",
+  "description",
+  "verified_type",
+  "is_blue_verified",
+  "location",
+  "relationship",
+];
+
+// Columns of a contact that getFollows can return, in output order
+const FOLLOW_FIELDS = [
+  "user_id",
+  "username",
+  "name",
+  "profile_image_url",
+  "description",
+  "followers_count",
+  "following_count",
+  "verified_type",
+  "is_blue_verified",
+  "location",
+  "created_at",
+  "note",
+  "tags",
+  "relationship",
+  "source",
+  "last_interaction_at",
+  "follow_up_at",
+  "follow_up_reason",
+  "follow_up_status",
+  "custom_fields",
+  "links",
+  "followers_growth_7d",
+  "followers_growth_30d",
+  "followers_growth_90d",
+  "archived_at",
+  "synced_at",
+];
+
+const SORT_FIELDS = [
+  "followers_count",
+  "following_count",
+  "username",
+  "name",
+  "created_at",
+  "synced_at",
+  "last_interaction_at",
+  "follow_up_at",
+  "followers_growth_7d",
+  "followers_growth_30d",
+  "followers_growth_90d",
+];
+
+// Filters, sorting, pagination and projection for getFollows
+export interface FollowsQuery {
+  tag?: string;
+  relationship?: string;
+  archived?: boolean;
+  min_followers?: number;
+  max_followers?: number;
+  location?: string;
+  verified?: boolean;
+  has_note?: boolean;
+  untagged?: boolean;
+  created_after?: string;
+  created_before?: string;
+  sort?: string;
+  order?: "asc" | "desc";
+  limit?: number;
+  offset?: number;
+  fields?: string[];
+  // Custom field filters: contacts with a value containing `value`, or with any value
+  custom?: Array<{ name: string; value?: string }>;
+  // Only contacts with a link of this type, e.g. github
+  has_link?: string;
+  // Only this contact, archived or not
+  user_id?: string;
+}
+
+// Everything known about one contact, for getContact and the contact resource
+export interface ContactDetails {
+  contact: Follow;
+  interactions: Array<{
+    type: string;
+    text: string;
+    link: string | null;
+    occurred_at: string;
+  }>;
+  stages: Array<{ pipeline: string; stage: string; entered_at: string }>;
+  previous_usernames: string[];
+}
+
+export interface Tweet {
+  id: string;
+  username: string;
+  text: string;
+  url: string | null;
+  created_at: string;
+  like_count: number;
+  retweet_count: number;
+  reply_count: number;
+  view_count: number;
+  is_reply: boolean;
+}
+
+// Digest of what a contact or the contacts of a tag posted since a date
+export interface RecentActivity {
+  since: string;
+  contacts: Array<{
+    username: string;
+    name: string;
+    tweet_count: number;
+    // The most engaging tweets, up to 5
+    top_tweets: Tweet[];
+    fetched_at: string | null;
+  }>;
+  // Contacts without tweets in the period
+  quiet: string[];
+  error?: string;
+}
+
+// Filters of getChanges
+export interface ChangesQuery {
+  // ISO date, defaults to 30 days ago
+  since?: string;
+  // Event types to report: bio, location, verified
+  events?: string[];
+  relationship?: string;
+  tag?: string;
+  limit?: number;
+}
+
+// A contact row, custom_fields and links are parsed from JSON
+export type Follow = Record<
+  string,
+  SqlStorageValue | Record<string, string> | ContactLink[]
+>;
+
+export interface FollowsPage {
+  follows: Follow[];
+  total: number;
+  offset: number;
+  next_offset: number | null;
+}
+
+// Parses the getFollows query parameters, returning an error message for invalid ones
+const parseFollowsQuery = (
+  searchParams: URLSearchParams
+): { query: FollowsQuery; error?: undefined } | { error: string } => {
+  const query: FollowsQuery = {};
+
+  const relationship = searchParams.get("relationship");
+  if (relationship && !RELATIONSHIPS.includes(relationship)) {
+    return {
+      error: `Relationship must be one of: ${RELATIONSHIPS.join(", ")}`,
+    };
+  }
+  if (relationship) query.relationship = relationship;
+  if (searchParams.get("tag")) query.tag = searchParams.get("tag");
+  if (searchParams.get("location")) {
+    query.location = searchParams.get("location");
+  }
+
+  for (const name of ["archived", "verified", "has_note", "untagged"]) {
+    const value = searchParams.get(name);
+    if (value === null || value === "") continue;
+    if (value !== "true" && value !== "false") {
+      return { error: `'${name}' must be true or false` };
+    }
+    query[name] = value === "true";
+  }
+
+  for (const name of ["min_followers", "max_followers", "limit", "offset"]) {
+    const value = searchParams.get(name);
+    if (value === null || value === "") continue;
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < 0) {
+      return { error: `'${name}' must be a non-negative integer` };
+    }
+    query[name] = number;
+  }
+  if (query.limit !== undefined) query.limit = Math.min(query.limit, 1000);
+
+  for (const name of ["created_after", "created_before"]) {
+    const value = searchParams.get(name);
+    if (!value) continue;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      return { error: `'${name}' must be a date, e.g. 2020-01-31` };
+    }
+    query[name] = date.toISOString();
+  }
+
+  const hasLink = searchParams.get("has_link");
+  if (hasLink && !LINK_TYPES.includes(hasLink)) {
+    return { error: `'has_link' must be one of: ${LINK_TYPES.join(", ")}` };
+  }
+  if (hasLink) query.has_link = hasLink;
+
+  // field=company:Acme matches values containing "Acme", field=github any value
+  const custom = searchParams.getAll("field").filter(Boolean);
+  if (custom.length > 0) {
+    query.custom = custom.map((filter) => {
+      const separator = filter.indexOf(":");
+      return separator === -1
+        ? { name: filter.trim() }
+        : {
+            name: filter.slice(0, separator).trim(),
+            value: filter.slice(separator + 1).trim() || undefined,
+          };
+    });
+  }
+
+  const sort = searchParams.get("sort");
+  if (sort && !SORT_FIELDS.includes(sort)) {
+    return { error: `'sort' must be one of: ${SORT_FIELDS.join(", ")}` };
+  }
+  if (sort) query.sort = sort;
+
+  const order = searchParams.get("order");
+  if (order && order !== "asc" && order !== "desc") {
+    return { error: `'order' must be asc or desc` };
+  }
+  if (order) query.order = order as "asc" | "desc";
+
+  const fields = searchParams.get("fields");
+  if (fields) {
+    query.fields = fields.split(",").map((field) => field.trim());
+    const unknown = query.fields.filter((f) => !FOLLOW_FIELDS.includes(f));
+    if (unknown.length > 0) {
+      return {
+        error: `Unknown fields: ${unknown.join(", ")}. Available: ${FOLLOW_FIELDS.join(
+          ", "
+        )}`,
+      };
+    }
+  }
+
+  return { query };
+};
+
+// Fields that are part of the standard markdown line of a contact
+const MARKDOWN_FIELDS = [
+  "username",
+  "name",
+  "relationship",
+  "location",
+  "tags",
+  "last_interaction_at",
+  "follow_up_at",
+  "follow_up_reason",
+  "follow_up_status",
+  "custom_fields",
+  "links",
+  "followers_growth_30d",
+  "note",
+  "description",
+];
+
+// Escapes text for use in html content and attribute values
+const escapeHtml = (value: unknown) =>
+  String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+// Client-side script of the html page: inline note and tag editing, bulk
+// tagging of selected rows and sorting on the stats columns. Writes go through
+// the same routes as the API, so they show up in the change history.
+const EDITOR_SCRIPT = `
+  const post = async (url, options = {}) => {
+    const response = await fetch(url, { method: "POST", ...options });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok || result.error) {
+      alert(result.error || "Saving failed (" + response.status + ")");
+      return null;
+    }
+    return result;
+  };
+
+  const selectedRows = () =>
+    [...document.querySelectorAll("tbody input.select:checked")].map((box) =>
+      box.closest("tr")
+    );
+
+  const updateSelection = () => {
+    document.getElementById("selected-count").textContent =
+      selectedRows().length + " selected";
+  };
+
+  const selectAll = (checked) => {
+    document.querySelectorAll("tbody input.select").forEach((box) => {
+      box.checked = checked;
+    });
+    updateSelection();
+  };
+
+  const editField = (button, field) => {
+    const row = button.closest("tr");
+    const cell = button.closest("td");
+    const previous = cell.innerHTML;
+    const input = document.createElement(field === "note" ? "textarea" : "input");
+    input.value = row.dataset[field] || "";
+    if (field === "tags") input.placeholder = "comma-separated tags";
+
+    const save = document.createElement("button");
+    save.textContent = "Save";
+    save.onclick = async () => {
+      save.disabled = true;
+      const params = new URLSearchParams({ [field]: input.value });
+      const result = await post(
+        "/contact/" + encodeURIComponent(row.dataset.username) + "?" + params
+      );
+      if (result) location.reload();
+      save.disabled = false;
+    };
+
+    const cancel = document.createElement("button");
+    cancel.textContent = "Cancel";
+    cancel.onclick = () => {
+      cell.innerHTML = previous;
+    };
+
+    const editor = document.createElement("div");
+    editor.className = "editor";
+    editor.append(input, save, cancel);
+    cell.replaceChildren(editor);
+    input.focus();
+  };
+
+  const bulkTag = async (action) => {
+    const tag = document.getElementById("bulk-tag").value.trim();
+    const rows = selectedRows();
+    if (!tag || rows.length === 0) {
+      alert("Select contacts and enter a tag first");
+      return;
+    }
+
+    const updates = rows.map((row) => {
+      const tags = (row.dataset.tags || "")
+        .split(",")
+        .map((t) => t.trim())
+        .filter(Boolean);
+      const next =
+        action === "add"
+          ? [...tags, tag]
+          : tags.filter((t) => t.toLowerCase() !== tag.toLowerCase());
+      return { username: row.dataset.username, tags: next.join(", ") };
+    });
+
+    const result = await post("/contacts/bulk", {
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ updates }),
+    });
+    if (!result) return;
+    if (result.errors > 0) alert(result.errorDetails.join("\\n"));
+    location.reload();
+  };
+
+  const deleteTag = async (tag) => {
+    if (!confirm("Remove the tag '" + tag + "' from all contacts?")) return;
+    const response = await fetch("/tags/" + encodeURIComponent(tag), {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      alert("Deleting the tag failed (" + response.status + ")");
+      return;
+    }
+    location.href = "/";
+  };
+
+  const sortRows = (key, header) => {
+    const descending = header.dataset.order !== "desc";
+    header.dataset.order = descending ? "desc" : "asc";
+    const tbody = document.querySelector("tbody");
+    const rows = [...tbody.rows].sort(
+      (a, b) => (Number(a.dataset[key]) - Number(b.dataset[key])) * (descending ? -1 : 1)
+    );
+    tbody.append(...rows);
+  };
+`;
+
+// Client-side script of the pipeline board: dragging a card onto another
+// column moves the contact to that stage through setStage
+const BOARD_SCRIPT = `
+  const board = document.querySelector(".board");
+  const pipeline = board.dataset.pipeline;
+
+  const setStage = async (username, stage) => {
+    const params = new URLSearchParams({ pipeline, stage });
+    const response = await fetch(
+      "/contact/" + encodeURIComponent(username) + "/stage?" + params,
+      { method: "POST" }
+    );
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok || result.error) {
+      alert(result.error || "Moving failed (" + response.status + ")");
+      return false;
+    }
+    return true;
+  };
+
+  const updateCounts = () => {
+    board.querySelectorAll(".column").forEach((column) => {
+      column.querySelector(".count").textContent =
+        column.querySelectorAll(".card").length;
+    });
+  };
+
+  board.addEventListener("dragstart", (event) => {
+    const card = event.target.closest(".card");
+    if (!card) return;
+    card.classList.add("dragging");
+    event.dataTransfer.setData("text/plain", card.dataset.username);
+  });
+
+  board.addEventListener("dragend", (event) => {
+    event.target.closest(".card")?.classList.remove("dragging");
+  });
+
+  board.querySelectorAll(".column").forEach((column) => {
+    column.addEventListener("dragover", (event) => {
+      event.preventDefault();
+      column.classList.add("over");
+    });
+    column.addEventListener("dragleave", () => column.classList.remove("over"));
+    column.addEventListener("drop", async (event) => {
+      event.preventDefault();
+      column.classList.remove("over");
+      const card = board.querySelector(".card.dragging");
+      if (!card || card.closest(".column") === column) return;
+
+      const from = card.closest(".column");
+      column.append(card);
+      updateCounts();
+      if (await setStage(card.dataset.username, column.dataset.stage)) {
+        card.querySelector(".meta").firstChild.textContent = "in stage since today";
+      } else {
+        from.append(card);
+        updateCounts();
+      }
+    });
+  });
+
+  const addContact = async (event) => {
+    event.preventDefault();
+    const username = document.getElementById("add-username").value.trim();
+    const firstStage = board.querySelector(".column")?.dataset.stage;
+    if (username && firstStage && (await setStage(username, firstStage))) {
+      location.reload();
+    }
+  };
+`;
+
+// Markdown document of a contact, served as its MCP resource
+const contactToMarkdown = ({
+  contact,
+  interactions,
+  stages,
+  previous_usernames,
+}: ContactDetails) => {
+  const lines = [
+    `# @${contact.username}${contact.name ? ` (${contact.name})` : ""}`,
+    "",
+  ];
+  if (contact.description) lines.push(`> ${contact.description}`, "");
+
+  const facts: Array<[string, unknown]> = [
+    ["Relationship", contact.archived_at ? "archived" : contact.relationship],
+    ["Location", contact.location],
+    [
+      "Followers",
+      `${contact.followers_count ?? 0}${
+        contact.followers_growth_30d
+          ? ` (${(contact.followers_growth_30d as number) > 0 ? "+" : ""}${
+              contact.followers_growth_30d
+            } in 30 days)`
+          : ""
+      }`,
+    ],
+    ["Following", contact.following_count ?? 0],
+    ["Tags", contact.tags],
+    [
+      "Follow-up",
+      contact.follow_up_at
+        ? `${(contact.follow_up_at as string).slice(0, 10)} (${contact.follow_up_status})${
+            contact.follow_up_reason ? `: ${contact.follow_up_reason}` : ""
+          }`
+        : null,
+    ],
+    [
+      "Pipelines",
+      stages.map((s) => `${s.pipeline}: ${s.stage} since ${s.entered_at.slice(0, 10)}`).join(", "),
+    ],
+    [
+      "Links",
+      ((contact.links as ContactLink[]) || []).map((link) => link.url).join(", "),
+    ],
+    ["Previous usernames", previous_usernames.map((name) => `@${name}`).join(", ")],
+    ...Object.entries((contact.custom_fields as Record<string, string>) || {}),
+  ];
+  for (const [label, value] of facts) {
+    if (value !== null && value !== undefined && value !== "") {
+      lines.push(`- **${label}:** ${value}`);
+    }
+  }
+
+  lines.push("", "## Note", "", (contact.note as string) || "_No note yet._");
+
+  lines.push("", "## Interactions", "");
+  if (interactions.length === 0) lines.push("_None logged._");
+  for (const interaction of interactions) {
+    lines.push(
+      `- ${interaction.occurred_at.slice(0, 10)} ${interaction.type}: ${
+        interaction.text || ""
+      }${interaction.link ? ` (${interaction.link})` : ""}`
+    );
+  }
+
+  return lines.join("\n");
+};
+
+// Condensed markdown digest of recent tweets, for the LLM
+const activityToMarkdown = (activity: RecentActivity, subject: string) => {
+  const tweets = activity.contacts.reduce((sum, c) => sum + c.tweet_count, 0);
+  const lines = [
+    `**Recent activity of ${subject}** since ${activity.since.slice(0, 10)}: ${tweets} tweets from ${
+      activity.contacts.length
+    } of ${activity.contacts.length + activity.quiet.length} contacts`,
+  ];
+
+  for (const contact of activity.contacts) {
+    lines.push(
+      "",
+      `### @${contact.username}${contact.name ? ` (${contact.name})` : ""}, ${
+        contact.tweet_count
+      } tweets`
+    );
+    for (const tweet of contact.top_tweets) {
+      const text = tweet.text.replace(/\s+/g, " ");
+      lines.push(
+        `- ${tweet.created_at.slice(0, 10)}${tweet.is_reply ? " reply" : ""} ♥${
+          tweet.like_count
+        } ↻${tweet.retweet_count}: ${
+          text.length > 280 ? `${text.slice(0, 279)}…` : text
+        } (${tweet.url})`
+      );
+    }
+  }
+
+  if (activity.quiet.length > 0) {
+    lines.push("", `**No tweets:** ${activity.quiet.map((u) => `@${u}`).join(", ")}`);
+  }
+
+  return lines.join("\n");
+};
+
+// Inline svg line of a series of numbers, for the stats column
+const sparkline = (values: number[], width = 80, height = 18) => {
+  if (values.length < 2) return "";
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min || 1;
+  const points = values
+    .map(
+      (value, i) =>
+        `${((i / (values.length - 1)) * width).toFixed(1)},${(
+          height -
+          1 -
+          ((value - min) / range) * (height - 2)
+        ).toFixed(1)}`
+    )
+    .join(" ");
+  const color = values[values.length - 1] >= values[0] ? "#2e7d32" : "#c62828";
+  return `<svg class="sparkline" width="${width}" height="${height}"><polyline points="${points}" fill="none" stroke="${color}" stroke-width="1.5"/></svg>`;
+};
+
+// One markdown line per contact. Extra fields are appended as `key: value`.
+const followToMarkdown = (x: Record<string, any>, extraFields: string[] = []) => {
+  const parts = [`- @${x.username}`];
+  if (x.name) parts.push(`(${x.name})`);
+  if (x.relationship) {
+    parts.push(
+      `{${x.relationship}${x.source && x.source !== "sync" ? `, ${x.source}` : ""}}`
+    );
+  }
+  if (x.location) parts.push(x.location);
+  if (x.tags) parts.push(`[${x.tags}]`);
+  if (x.last_interaction_at) {
+    parts.push(`last touched: ${x.last_interaction_at.slice(0, 10)}`);
+  }
+  if (x.follow_up_at) {
+    parts.push(
+      `${x.follow_up_status === "overdue" ? "⚠️ OVERDUE " : ""}follow-up: ${x.follow_up_at.slice(
+        0,
+        10
+      )}${x.follow_up_reason ? ` (${x.follow_up_reason})` : ""}`
+    );
+  }
+  for (const [key, value] of Object.entries(x.custom_fields || {})) {
+    parts.push(`${key}: ${value}`);
+  }
+  if (x.links?.length) {
+    parts.push(`links: ${x.links.map((link) => link.label).join(", ")}`);
+  }
+  if (x.followers_growth_30d) {
+    parts.push(
+      `${x.followers_growth_30d > 0 ? "+" : ""}${x.followers_growth_30d} followers/30d`
+    );
+  }
+  for (const field of extraFields) {
+    if (x[field] !== null && x[field] !== undefined) {
+      parts.push(`${field}: ${x[field]}`);
+    }
+  }
+  if (x.shared?.tags.length) {
+    parts.push(
+      `shared tags: ${x.shared.tags
+        .map((t) => `${t.tag} (by @${t.published_by})`)
+        .join(", ")}`
+    );
+  }
+  if (x.note) {
+    parts.push(`NOTE: ${x.note}`);
+  } else if (x.description) {
+    parts.push(`*${x.description}*`);
+  }
+  for (const shared of x.shared?.notes || []) {
+    parts.push(`NOTE by @${shared.author}: ${shared.note}`);
+  }
+  return parts.join(" ");
+};
+
+const EXPORT_FORMATS = ["csv", "json", "vcf"];
+
+// Columns of the csv export, followed by one column per custom field
+const EXPORT_COLUMNS = [
+  "user_id",
+  "username",
+  "name",
+  "relationship",
+  "followers_count",
+  "following_count",
+  "location",
+  "description",
+  "created_at",
+  "tags",
+  "note",
+  "follow_up_at",
+  "follow_up_reason",
+  "last_interaction_at",
+  "links",
+];
+
+const IMPORT_MODES = ["overwrite", "fill-empty", "append-notes"];
+
+// A row of an import, matched on user_id or else on username
+export interface ImportRow {
+  user_id?: string;
+  username?: string;
+  note?: string;
+  tags?: string;
+  follow_up_at?: string;
+  follow_up_reason?: string;
+  fields?: Record<string, string>;
+}
+
+const toCsvValue = (value: unknown) => {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const followsToCsv = (follows: Follow[], customFields: CustomField[]) => {
+  const header = [...EXPORT_COLUMNS, ...customFields.map((field) => field.name)];
+  const lines = follows.map((follow) =>
+    [
+      ...EXPORT_COLUMNS.map((column) =>
+        column === "links"
+          ? ((follow.links as ContactLink[]) || []).map((link) => link.url).join(" ")
+          : follow[column]
+      ),
+      ...customFields.map(
+        (field) => (follow.custom_fields as Record<string, string>)?.[field.name]
+      ),
+    ]
+      .map(toCsvValue)
+      .join(",")
+  );
+  return [header.map(toCsvValue).join(","), ...lines].join("\r\n") + "\r\n";
+};
+
+// Parses RFC 4180 csv: quoted values may contain commas, quotes and newlines
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = "";
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(value);
+      value = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = "";
+    } else {
+      value += char;
+    }
+  }
+  if (value !== "" || row.length > 0) {
+    row.push(value);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+};
+
+// Maps a csv record or json contact onto an import row. Columns named after a
+// custom field (csv) or a custom_fields object (json) become field values.
+const toImportRow = (
+  record: Record<string, any>,
+  customFields: CustomField[]
+): ImportRow => {
+  const row: ImportRow = {};
+  for (const key of [
+    "user_id",
+    "username",
+    "note",
+    "follow_up_at",
+    "follow_up_reason",
+  ] as const) {
+    if (record[key] !== undefined && record[key] !== null) {
+      row[key] = String(record[key]);
+    }
+  }
+  if (Array.isArray(record.tags)) {
+    row.tags = record.tags.join(", ");
+  } else if (record.tags !== undefined && record.tags !== null) {
+    row.tags = String(record.tags);
+  }
+
+  const fields: Record<string, string> = {};
+  for (const field of customFields) {
+    const key = Object.keys(record).find(
+      (k) => k.toLowerCase() === field.name.toLowerCase()
+    );
+    if (key !== undefined && record[key] !== null) {
+      fields[field.name] = String(record[key]);
+    }
+  }
+  const values = record.custom_fields || record.fields;
+  if (values && typeof values === "object") {
+    for (const [name, value] of Object.entries(values)) {
+      fields[name] = value === null ? "" : String(value);
+    }
+  }
+  if (Object.keys(fields).length > 0) row.fields = fields;
+
+  return row;
+};
+
+// vCard text values escape backslashes, commas, semicolons and newlines
+const escapeVCard = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/[,;]/g, (char) => `\\${char}`)
+    .replace(/\r?\n/g, "\\n");
+
+// Lines longer than 75 characters are folded onto continuation lines
+const foldVCardLine = (line: string) =>
+  line.length <= 75
+    ? line
+    : (line.match(/.{1,74}/gu) || []).join("\r\n ");
+
+const followToVCard = (follow: Follow) => {
+  const links = (follow.links as ContactLink[]) || [];
+  const tags = parseTags((follow.tags as string) || "");
+  const lines = [
+    "BEGIN:VCARD",
+    "VERSION:3.0",
+    `FN:${escapeVCard(String(follow.name || follow.username))}`,
+    `NICKNAME:${escapeVCard(String(follow.username))}`,
+  ];
+  // Manual contacts have no X account
+  if (follow.source !== "manual") {
+    lines.push(
+      `X-SOCIALPROFILE;TYPE=x:https://x.com/${follow.username}`,
+      `URL:https://x.com/${follow.username}`
+    );
+  }
+  if (follow.profile_image_url) {
+    lines.push(`PHOTO;VALUE=URI:${follow.profile_image_url}`);
+  }
+  for (const link of links) {
+    if (link.type === "email") {
+      lines.push(`EMAIL;TYPE=INTERNET:${link.url.replace(/^mailto:/, "")}`);
+    } else if (link.type !== "x") {
+      lines.push(`URL:${link.url}`);
+    }
+  }
+  if (tags.length > 0) {
+    lines.push(`CATEGORIES:${tags.map(escapeVCard).join(",")}`);
+  }
+  if (follow.note) {
+    lines.push(`NOTE:${escapeVCard(String(follow.note))}`);
+  }
+  lines.push("END:VCARD");
+  return lines.map(foldVCardLine).join("\r\n");
+};
+
+// Tags of a contact as a comma-separated string, for output
+const TAGS_COLUMN = `(
+  SELECT group_concat(t.name, ', ') FROM contact_tags ct
+  JOIN tags t ON t.id = ct.tag_id
+  WHERE ct.user_id = follows.user_id
+)`;
+
+const LAST_INTERACTION_COLUMN = `(
+  SELECT MAX(i.occurred_at) FROM interactions i WHERE i.user_id = follows.user_id
+)`;
+
+// Custom field values of a contact as a JSON object
+const CUSTOM_FIELDS_COLUMN = `(
+  SELECT json_group_object(v.field, v.value) FROM contact_field_values v
+  WHERE v.user_id = follows.user_id
+)`;
+
+// Links of a contact as a JSON array
+const LINKS_COLUMN = `(
+  SELECT json_group_array(json_object('type', l.type, 'url', l.url, 'label', l.label))
+  FROM contact_links l WHERE l.user_id = follows.user_id
+)`;
+
+const followUpColumn = (column: string) => `(
+  SELECT fu.${column} FROM follow_ups fu
+  WHERE fu.user_id = follows.user_id AND fu.status != 'done'
+)`;
+
+// Followers gained since `cutoff`, measured against the last snapshot taken at or
+// before it, or the oldest snapshot when the history doesn't reach back that far
+const followersGrowthColumn = (cutoff: string) => `(
+  follows.followers_count - COALESCE(
+    (SELECT s.followers_count FROM profile_snapshots s
+     WHERE s.user_id = follows.user_id AND s.taken_at <= ${cutoff}
+     ORDER BY s.taken_at DESC LIMIT 1),
+    (SELECT s.followers_count FROM profile_snapshots s
+     WHERE s.user_id = follows.user_id AND s.taken_at > ${cutoff}
+     ORDER BY s.taken_at ASC LIMIT 1),
+    follows.followers_count
+  )
+)`;
+
+const daysAgo = (days: number) =>
+  `strftime('%Y-%m-%dT%H:%M:%fZ', 'now', '-${days} days')`;
+
+// getFollows fields that are computed from other tables
+const COMPUTED_COLUMNS: Record<string, string> = {
+  tags: TAGS_COLUMN,
+  last_interaction_at: LAST_INTERACTION_COLUMN,
+  follow_up_at: followUpColumn("due_at"),
+  follow_up_reason: followUpColumn("reason"),
+  follow_up_status: followUpColumn("status"),
+  custom_fields: CUSTOM_FIELDS_COLUMN,
+  links: LINKS_COLUMN,
+  followers_growth_7d: followersGrowthColumn(daysAgo(7)),
+  followers_growth_30d: followersGrowthColumn(daysAgo(30)),
+  followers_growth_90d: followersGrowthColumn(daysAgo(90)),
+};
+
+// Snapshot columns reported as change events by getChanges, by event name
+const PROFILE_CHANGE_FIELDS: Record<string, string> = {
+  bio: "description",
+  location: "location",
+  verified: "verified_type",
+};
+
+// Computed columns that hold JSON and are parsed before returning
+const JSON_COLUMNS = ["custom_fields", "links"];
+
+const INTERACTION_TYPES = ["met", "dm", "call", "intro", "email", "other"];
+
+// Fields of updateContact and updateBulk. Omitted fields are left untouched.
+export interface ContactUpdate {
+  note?: string;
+  tags?: string;
+  // Empty or null clears the open follow-up
+  follow_up_at?: string | null;
+  follow_up_reason?: string;
+  // Custom field values by field name, empty or null clears a value
+  fields?: Record<string, string | null>;
+}
+
+// What's left of the sync policy for a user, see sync-policy.ts. max_pages and
+// pages_remaining are null without a page limit.
+export interface SyncQuota extends SyncAllowance {
+  max_pages: number | null;
+  pages_remaining: number | null;
+  usage_30d: { syncs: number; pages: number; api_calls: number };
+}
+
+// A contact without an X account, added with addManualContact
+export interface ManualContact {
+  name: string;
+  description?: string;
+  location?: string;
+}
+
+// Result of adding a contact by hand. restored is set when the contact was
+// archived by a sync before; error without added means nothing was stored.
+export interface AddedContact {
+  added: boolean;
+  user_id?: string;
+  username?: string;
+  source?: string;
+  restored?: boolean;
+  error?: string;
+}
+
+// A pipeline with its contacts per stage, in stage order
+export interface Pipeline {
+  name: string;
+  stages: Array<{
+    name: string;
+    contacts: Array<{
+      username: string;
+      name: string;
+      profile_image_url: string;
+      tags: string;
+      note: string;
+      entered_at: string;
+      days_in_stage: number;
+    }>;
+  }>;
+  // Most recent stage changes, when requested
+  history?: Array<{
+    username: string;
+    from: string | null;
+    to: string | null;
+    changed_at: string;
+  }>;
+  error?: string;
+}
+
+// Where a write came from, recorded in the change history
+const CHANGE_SOURCES = ["mcp", "web"];
+
+// MCP clients call the API with a bearer token, the web UI with a session cookie
+const changeSource = (request: Request) =>
+  request.headers.get("Authorization")?.startsWith("Bearer ") ? "mcp" : "web";
+
+// All note and tag changes of one call share a batch, so they can be undone together
+interface ChangeBatch {
+  id: string;
+  operation: string;
+  source: string;
+}
+
+// Ids of the reverted changes, and the changes that could not be reverted
+export interface RevertResult {
+  reverted: number[];
+  conflicts: Array<{ id: number; error: string }>;
+  batch_id?: string;
+  error?: string;
+}
+
+const FIELD_TYPES = ["text", "url", "email", "number", "date", "select"];
+
+export interface CustomField {
+  name: string;
+  type: string;
+  options: string[] | null;
+}
+
+// Validates a custom field value against its type, returning the value to store
+const normalizeFieldValue = (field: CustomField, value: string): string => {
+  const trimmed = value.trim();
+  switch (field.type) {
+    case "url": {
+      const withProtocol = /^https?:\/\//i.test(trimmed)
+        ? trimmed
+        : `https://${trimmed}`;
+      try {
+        return new URL(withProtocol).toString();
+      } catch {
+        throw new Error(`'${field.name}' must be a URL`);
+      }
+    }
+    case "email":
+      if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmed)) {
+        throw new Error(`'${field.name}' must be an email address`);
+      }
+      return trimmed.toLowerCase();
+    case "number":
+      if (trimmed === "" || isNaN(Number(trimmed))) {
+        throw new Error(`'${field.name}' must be a number`);
+      }
+      return String(Number(trimmed));
+    case "date":
+      if (isNaN(new Date(trimmed).getTime())) {
+        throw new Error(`'${field.name}' must be a date, e.g. 2025-10-31`);
+      }
+      return new Date(trimmed).toISOString().slice(0, 10);
+    case "select": {
+      const option = field.options?.find(
+        (o) => o.toLowerCase() === trimmed.toLowerCase()
+      );
+      if (!option) {
+        throw new Error(
+          `'${field.name}' must be one of: ${(field.options || []).join(", ")}`
+        );
+      }
+      return option;
+    }
+    default:
+      return trimmed;
+  }
+};
+
+const LINK_TYPES = [
+  "website",
+  "github",
+  "substack",
+  "linkedin",
+  "youtube",
+  "instagram",
+  "email",
+  "x",
+];
+
+// Shown in the HTML table in place of the link
+const LINK_ICONS: Record<string, string> = {
+  website: "🌐",
+  github: "🐙",
+  substack: "📰",
+  linkedin: "💼",
+  youtube: "▶️",
+  instagram: "📷",
+  email: "✉️",
+  x: "𝕏",
+};
+
+export interface ContactLink {
+  type: string;
+  url: string;
+  label: string;
+}
+
+const LINK_HOSTS: Array<[RegExp, string]> = [
+  [/(^|\.)github\.com$/, "github"],
+  [/(^|\.)substack\.com$/, "substack"],
+  [/(^|\.)linkedin\.com$/, "linkedin"],
+  [/(^|\.)(youtube\.com|youtu\.be)$/, "youtube"],
+  [/(^|\.)instagram\.com$/, "instagram"],
+  [/(^|\.)(x\.com|twitter\.com)$/, "x"],
+];
+
+// Pulls links out of a twitterapi.io profile: the expanded urls of the bio and
+// profile url entities, plus emails and @handles in the bio text
+const extractLinks = (user: any): ContactLink[] => {
+  const links = new Map<string, ContactLink>();
+
+  const urls = [
+    ...(user.entities?.description?.urls || []),
+    ...(user.entities?.url?.urls || []),
+  ]
+    .map((entity) => entity.expanded_url || entity.url)
+    .filter(Boolean);
+
+  for (const value of urls) {
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch {
+      continue;
+    }
+    const host = url.hostname.replace(/^www\./, "");
+    const type =
+      LINK_HOSTS.find(([pattern]) => pattern.test(host))?.[1] || "website";
+    const label = `${host}${url.pathname === "/" ? "" : url.pathname}`;
+    links.set(url.toString(), { type, url: url.toString(), label });
+  }
+
+  const description: string = user.description || "";
+
+  for (const [email] of description.matchAll(
+    /[\w.+-]+@[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}/gi
+  )) {
+    const url = `mailto:${email.toLowerCase()}`;
+    links.set(url, { type: "email", url, label: email.toLowerCase() });
+  }
+
+  for (const [, handle] of description.matchAll(/(?<![\w@.])@(\w{1,15})\b/g)) {
+    const url = `https://x.com/${handle}`;
+    if (![...links.values()].some((link) => link.url.toLowerCase() === url.toLowerCase())) {
+      links.set(url, { type: "x", url, label: `@${handle}` });
+    }
+  }
+
+  return [...links.values()];
+};
+
+// A date without a time is due at the end of that day (UTC)
+const toFollowUpDueAt = (value: string): string =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? `${value}T23:59:59.999Z`
+    : new Date(value).toISOString();
+
+// Splits comma-separated tags, dropping empty and case-insensitive duplicates
+const parseTags = (tags: string): string[] => {
+  const seen = new Set<string>();
+  return tags
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter((tag) => {
+      if (!tag || seen.has(tag.toLowerCase())) return false;
+      seen.add(tag.toLowerCase());
+      return true;
+    });
+};
+
+// twitterapi.io returns dates like "Thu Dec 13 08:41:26 +0000 2007", stored as ISO 8601
+const toIsoDate = (value: string | null | undefined): string | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : date.toISOString();
+};
+
+// Turns free text into an FTS5 query: every word must match as a prefix, OR between
+// words matches either. Quoting each word keeps FTS5 syntax characters from breaking the query.
+const toFtsQuery = (q: string): string => {
+  const words = q.match(/[\p{L}\p{N}_]+/gu) || [];
+  const parts = [];
+  for (const word of words) {
+    if (word === "OR") {
+      if (parts.length > 0 && parts[parts.length - 1] !== "OR") {
+        parts.push("OR");
+      }
+    } else {
+      parts.push(`"${word}"*`);
+    }
+  }
+  if (parts[parts.length - 1] === "OR") parts.pop();
+  return parts.join(" ");
+};
+
+// Background sync retries failed pages with exponential backoff on 429 and 5xx
+const MAX_SYNC_ATTEMPTS = 6;
+const SYNC_BACKOFF_BASE_MS = 30 * 1000;
+const SYNC_BACKOFF_MAX_MS = 30 * 60 * 1000;
+
+// List members are fetched in one go, this caps the pages per List
+const MAX_LIST_PAGES = 50;
+
+const X_LIST_SYNC_MODES = ["import", "mirror"];
+
+// Tweets of contacts in opted-in tags are refreshed every TWEET_REFRESH_HOURS,
+// fetching TWEET_FETCH_BATCH contacts per alarm
+const TWEET_REFRESH_HOURS = 6;
+const TWEET_FETCH_BATCH = 10;
+
+// Retention: older tweets are dropped, and at most this many are kept per contact
+const TWEET_RETENTION_DAYS = 30;
+const MAX_TWEETS_PER_CONTACT = 50;
+
+// Contacts whose tweets are fetched: those with a tag that opted in
+const TWEET_TRACKED_CONTACTS = `SELECT f.user_id FROM follows f
+  JOIN contact_tags ct ON ct.user_id = f.user_id
+  JOIN tags t ON t.id = ct.tag_id
+  JOIN tweet_tags tt ON tt.tag = t.name
+  WHERE f.archived_at IS NULL AND f.source != 'manual'`;
+
+// Events a webhook can subscribe to
+const WEBHOOK_EVENTS = [
+  "contact.added",
+  "contact.removed",
+  "contact.updated",
+  "followup.due",
+  "sync.completed",
+];
+
+// Failed deliveries are retried with exponential backoff, WEBHOOK_BATCH per alarm
+const WEBHOOK_MAX_ATTEMPTS = 6;
+const WEBHOOK_BACKOFF_BASE_MS = 60 * 1000;
+const WEBHOOK_BACKOFF_MAX_MS = 6 * 60 * 60 * 1000;
+const WEBHOOK_BATCH = 20;
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+// Number of deliveries kept in the log
+const WEBHOOK_LOG_SIZE = 500;
+
+// Hex HMAC-SHA256 of a payload with the webhook's secret, sent as X-CRM-Signature: sha256=<hex>
+const signPayload = async (secret: string, body: string) => {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    new TextEncoder().encode(body)
+  );
+  return [...new Uint8Array(signature)]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+// Accepts a numeric List id or a List url like https://x.com/i/lists/123
+const toListId = (value: string) =>
+  decodeURIComponent(value).match(/(\d+)\/?$/)?.[1] || "";
+
+// The follows columns of a user returned by the X provider
+const toProfile = (user: any) => ({
+  username: user.userName as string,
+  name: user.name as string,
+  profile_image_url: user.profile_image_url_https as string,
+  description: user.description as string,
+  verified_type: user.verifiedType as string,
+  is_blue_verified: user.verified ? 1 : 0,
+  location: user.location as string,
+});
+
+// A user returned by twitterapi.io, with the lists it appeared in
+interface SyncedUser {
+  user: any;
+  following: boolean;
+  follower: boolean;
 }
 
 // User's CRM data storage
 export class CrmDurableObject extends DurableObject<Env> {
   sql: SqlStorage;
+  provider: XProvider;
   constructor(state: DurableObjectState, env: Env) {
     super(state, env);
     this.sql = state.storage.sql;
     this.env = env;
+    this.provider = createProvider(env);
   }
 
   async initSchema() {
@@ -39,14 +1320,21 @@ export class CrmDurableObject extends DurableObject<Env> {
         created_at TEXT,
         note TEXT,
         tags TEXT,
-        synced_at TEXT DEFAULT CURRENT_TIMESTAMP
+        relationship TEXT DEFAULT 'following',
+        archived_at TEXT,
+        synced_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        source TEXT NOT NULL DEFAULT 'sync'
       )
     `);
 
     this.sql.exec(`
       CREATE TABLE IF NOT EXISTS sync_log (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
-        last_sync_at TEXT DEFAULT CURRENT_TIMESTAMP
+        last_sync_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        completed_at TEXT,
+        added TEXT,
+        removed TEXT,
+        changed TEXT
       )
     `);
 
@@ -56,744 +1344,7603 @@ export class CrmDurableObject extends DurableObject<Env> {
     } catch (e) {
       // Column already exists, ignore error
     }
-  }
-
-  async getLastSyncTime(): Promise<Date | null> {
-    await this.initSchema();
-    const result = this.sql.exec(`
-      SELECT last_sync_at FROM sync_log 
-      ORDER BY last_sync_at DESC 
-      LIMIT 1
-    `);
 
-    const rows = result.toArray();
-    if (rows.length === 0) return null;
+    // Add relationship column (existing rows all came from the followings sync)
+    try {
+      this.sql.exec(
+        `ALTER TABLE follows ADD COLUMN relationship TEXT DEFAULT 'following'`
+      );
+    } catch (e) {
+      // Column already exists, ignore error
+    }
 
-    return new Date(rows[0].last_sync_at as string);
-  }
+    // Unfollowed contacts are archived instead of deleted
+    try {
+      this.sql.exec(`ALTER TABLE follows ADD COLUMN archived_at TEXT`);
+    } catch (e) {
+      // Column already exists, ignore error
+    }
 
-  async updateSyncTime() {
-    await this.initSchema();
-    this.sql.exec(
-      `INSERT INTO sync_log (last_sync_at) VALUES (CURRENT_TIMESTAMP)`
-    );
+    // Where a contact came from, see CONTACT_SOURCES (existing rows all came from a sync)
+    try {
+      this.sql.exec(
+        `ALTER TABLE follows ADD COLUMN source TEXT NOT NULL DEFAULT 'sync'`
+      );
+    } catch (e) {
+      // Column already exists, ignore error
+    }
+
+    // Every handle a user_id has been seen with, so old handles keep resolving
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS username_history (
+        user_id TEXT NOT NULL,
+        username TEXT NOT NULL,
+        first_seen_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        last_seen_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (user_id, username)
+      )
+    `);
+    this.sql.exec(`
+      INSERT OR IGNORE INTO username_history (user_id, username)
+      SELECT user_id, username FROM follows
+    `);
+
+    // Progress of the background sync, a single row that is reused for every run
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS sync_job (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        sync_id INTEGER,
+        username TEXT,
+        state TEXT,
+        phase TEXT,
+        cursor TEXT,
+        pages INTEGER DEFAULT 0,
+        attempts INTEGER DEFAULT 0,
+        error TEXT,
+        next_run_at TEXT,
+        started_at TEXT,
+        updated_at TEXT,
+        completed_at TEXT
+      )
+    `);
+
+    // Users fetched by the running sync, applied to follows when both lists are complete
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS sync_staging (
+        user_id TEXT PRIMARY KEY,
+        profile TEXT NOT NULL,
+        following INTEGER DEFAULT 0,
+        follower INTEGER DEFAULT 0
+      )
+    `);
+
+    // Tags are normalized into a join table, matched case-insensitively
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS tags (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE COLLATE NOCASE
+      )
+    `);
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS contact_tags (
+        user_id TEXT NOT NULL,
+        tag_id INTEGER NOT NULL,
+        PRIMARY KEY (user_id, tag_id)
+      )
+    `);
+    this.sql.exec(
+      `CREATE INDEX IF NOT EXISTS contact_tags_tag_id ON contact_tags (tag_id)`
+    );
+
+    // Migrate the old comma-separated tags column into the join table
+    const legacyTags = this.sql
+      .exec(
+        `SELECT user_id, tags FROM follows WHERE tags IS NOT NULL AND tags != ''`
+      )
+      .toArray();
+    for (const row of legacyTags) {
+      this.addContactTags(row.user_id as string, parseTags(row.tags as string));
+    }
+    if (legacyTags.length > 0) {
+      this.sql.exec(`UPDATE follows SET tags = NULL WHERE tags IS NOT NULL`);
+    }
+
+    // Timestamped interactions per contact (met, DM'd, called, intro'd, ...)
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS interactions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        text TEXT,
+        link TEXT,
+        occurred_at TEXT NOT NULL,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    this.sql.exec(
+      `CREATE INDEX IF NOT EXISTS interactions_user_id ON interactions (user_id, occurred_at)`
+    );
+
+    // Follow-up reminders, at most one open (pending or overdue) per contact
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS follow_ups (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id TEXT NOT NULL,
+        due_at TEXT NOT NULL,
+        reason TEXT,
+        status TEXT NOT NULL DEFAULT 'pending',
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        completed_at TEXT
+      )
+    `);
+    this.sql.exec(
+      `CREATE INDEX IF NOT EXISTS follow_ups_status ON follow_ups (status, due_at)`
+    );
+
+    // User-defined custom fields and their values per contact
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS custom_fields (
+        name TEXT PRIMARY KEY COLLATE NOCASE,
+        type TEXT NOT NULL,
+        options TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS contact_field_values (
+        user_id TEXT NOT NULL,
+        field TEXT NOT NULL COLLATE NOCASE,
+        value TEXT NOT NULL,
+        PRIMARY KEY (user_id, field)
+      )
+    `);
+
+    // Links, emails and handles extracted from bios at sync time
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS contact_links (
+        user_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        url TEXT NOT NULL,
+        label TEXT,
+        PRIMARY KEY (user_id, url)
+      )
+    `);
+    this.sql.exec(
+      `CREATE INDEX IF NOT EXISTS contact_links_type ON contact_links (type, user_id)`
+    );
+
+    // Profile metrics per contact per sync, for growth and change detection
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS profile_snapshots (
+        user_id TEXT NOT NULL,
+        taken_at TEXT NOT NULL,
+        followers_count INTEGER,
+        following_count INTEGER,
+        description TEXT,
+        location TEXT,
+        verified_type TEXT,
+        PRIMARY KEY (user_id, taken_at)
+      )
+    `);
+    // The first snapshot of existing contacts is their state at the last sync
+    const { snapshots } = this.sql
+      .exec(`SELECT COUNT(*) AS snapshots FROM profile_snapshots`)
+      .one();
+    if (snapshots === 0) {
+      this.sql.exec(
+        `INSERT INTO profile_snapshots
+         (user_id, taken_at, followers_count, following_count, description, location, verified_type)
+         SELECT user_id, strftime('%Y-%m-%dT%H:%M:%fZ', COALESCE(synced_at, CURRENT_TIMESTAMP)),
+                followers_count, following_count, description, location, verified_type
+         FROM follows`
+      );
+    }
+
+    // Pipelines with ordered stages, and the stage of each contact per pipeline
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS pipelines (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS pipeline_stages (
+        pipeline_id INTEGER NOT NULL,
+        name TEXT NOT NULL COLLATE NOCASE,
+        position INTEGER NOT NULL,
+        PRIMARY KEY (pipeline_id, name)
+      )
+    `);
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS contact_stages (
+        pipeline_id INTEGER NOT NULL,
+        user_id TEXT NOT NULL,
+        stage TEXT NOT NULL,
+        entered_at TEXT NOT NULL,
+        PRIMARY KEY (pipeline_id, user_id)
+      )
+    `);
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS stage_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        pipeline_id INTEGER NOT NULL,
+        user_id TEXT NOT NULL,
+        from_stage TEXT,
+        to_stage TEXT,
+        changed_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+      )
+    `);
+
+    // X Lists mapped to tags, with their members as of the last list sync
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS x_lists (
+        list_id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        tag TEXT NOT NULL,
+        synced_at TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS x_list_members (
+        list_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        username TEXT,
+        PRIMARY KEY (list_id, user_id)
+      )
+    `);
+
+    // Audit log of note and tag writes, for history and undo
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS change_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        batch_id TEXT NOT NULL,
+        operation TEXT NOT NULL,
+        source TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        field TEXT NOT NULL,
+        old_value TEXT,
+        new_value TEXT,
+        created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+        reverted_at TEXT
+      )
+    `);
+    this.sql.exec(
+      `CREATE INDEX IF NOT EXISTS change_log_user ON change_log (user_id, id)`
+    );
+    this.sql.exec(
+      `CREATE INDEX IF NOT EXISTS change_log_batch ON change_log (batch_id)`
+    );
+
+    // Recent tweets of contacts in tags that opted in, with a full-text index
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS tweet_tags (
+        tag TEXT PRIMARY KEY COLLATE NOCASE,
+        enabled_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS tweet_fetches (
+        user_id TEXT PRIMARY KEY,
+        fetched_at TEXT NOT NULL,
+        error TEXT
+      )
+    `);
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS tweets (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        text TEXT NOT NULL,
+        url TEXT,
+        created_at TEXT NOT NULL,
+        like_count INTEGER DEFAULT 0,
+        retweet_count INTEGER DEFAULT 0,
+        reply_count INTEGER DEFAULT 0,
+        view_count INTEGER DEFAULT 0,
+        is_reply INTEGER DEFAULT 0
+      )
+    `);
+    this.sql.exec(
+      `CREATE INDEX IF NOT EXISTS tweets_user ON tweets (user_id, created_at)`
+    );
+    this.sql.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS tweets_fts USING fts5(
+        text,
+        tokenize = 'unicode61 remove_diacritics 2'
+      )
+    `);
+    this.sql.exec(`
+      CREATE TRIGGER IF NOT EXISTS tweets_fts_insert AFTER INSERT ON tweets BEGIN
+        INSERT INTO tweets_fts (rowid, text) VALUES (new.rowid, new.text);
+      END
+    `);
+    this.sql.exec(`
+      CREATE TRIGGER IF NOT EXISTS tweets_fts_delete AFTER DELETE ON tweets BEGIN
+        DELETE FROM tweets_fts WHERE rowid = old.rowid;
+      END
+    `);
+
+    // Team workspaces the user is a member of, the data lives in WorkspaceDurableObject
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS workspaces (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        role TEXT NOT NULL,
+        joined_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Webhook endpoints and the queue and log of their deliveries
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS webhooks (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        url TEXT NOT NULL,
+        secret TEXT NOT NULL,
+        events TEXT NOT NULL,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        webhook_id INTEGER NOT NULL,
+        event TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at TEXT,
+        response_status INTEGER,
+        error TEXT,
+        created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+        delivered_at TEXT
+      )
+    `);
+    this.sql.exec(
+      `CREATE INDEX IF NOT EXISTS webhook_deliveries_due ON webhook_deliveries (status, next_attempt_at)`
+    );
+
+    // Normalize account creation dates to ISO 8601 so they can be filtered and sorted
+    for (const row of this.sql
+      .exec(
+        `SELECT user_id, created_at FROM follows WHERE created_at IS NOT NULL AND created_at NOT LIKE '____-__-__%'`
+      )
+      .toArray()) {
+      const createdAt = toIsoDate(row.created_at as string);
+      if (createdAt !== row.created_at) {
+        this.sql.exec(
+          `UPDATE follows SET created_at = ? WHERE user_id = ?`,
+          createdAt,
+          row.user_id
+        );
+      }
+    }
+
+    // Full-text index over profile fields and notes, kept up to date by triggers
+    const hasSearchIndex =
+      this.sql
+        .exec(
+          `SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'follows_fts'`
+        )
+        .toArray().length > 0;
+    if (!hasSearchIndex) {
+      this.sql.exec(`
+        CREATE VIRTUAL TABLE follows_fts USING fts5(
+          name, username, description, location, note,
+          tokenize = 'unicode61 remove_diacritics 2'
+        )
+      `);
+      this.sql.exec(`
+        INSERT INTO follows_fts (rowid, name, username, description, location, note)
+        SELECT rowid, name, username, description, location, note FROM follows
+      `);
+    }
+    this.sql.exec(`
+      CREATE TRIGGER IF NOT EXISTS follows_fts_insert AFTER INSERT ON follows BEGIN
+        INSERT INTO follows_fts (rowid, name, username, description, location, note)
+        VALUES (new.rowid, new.name, new.username, new.description, new.location, new.note);
+      END
+    `);
+    this.sql.exec(`
+      CREATE TRIGGER IF NOT EXISTS follows_fts_update
+      AFTER UPDATE OF name, username, description, location, note ON follows BEGIN
+        DELETE FROM follows_fts WHERE rowid = old.rowid;
+        INSERT INTO follows_fts (rowid, name, username, description, location, note)
+        VALUES (new.rowid, new.name, new.username, new.description, new.location, new.note);
+      END
+    `);
+    this.sql.exec(`
+      CREATE TRIGGER IF NOT EXISTS follows_fts_delete AFTER DELETE ON follows BEGIN
+        DELETE FROM follows_fts WHERE rowid = old.rowid;
+      END
+    `);
+
+    // Sync diff columns, stored as JSON arrays
+    for (const column of ["completed_at", "added", "removed", "changed"]) {
+      try {
+        this.sql.exec(`ALTER TABLE sync_log ADD COLUMN ${column} TEXT`);
+      } catch (e) {
+        // Column already exists, ignore error
+      }
+    }
+
+    // X API usage of each sync: pages fetched, requests made (including failed
+    // ones) and whether it stopped at SYNC_MAX_PAGES
+    for (const column of ["pages", "api_calls", "truncated"]) {
+      try {
+        this.sql.exec(
+          `ALTER TABLE sync_log ADD COLUMN ${column} INTEGER NOT NULL DEFAULT 0`
+        );
+      } catch (e) {
+        // Column already exists, ignore error
+      }
+    }
+  }
+
+  async getLastSyncTime(): Promise<Date | null> {
+    await this.initSchema();
+    const result = this.sql.exec(`
+      SELECT last_sync_at FROM sync_log 
+      ORDER BY last_sync_at DESC 
+      LIMIT 1
+    `);
+
+    const rows = result.toArray();
+    if (rows.length === 0) return null;
+
+    return new Date(rows[0].last_sync_at as string);
+  }
+
+  async updateSyncTime(): Promise<number> {
+    await this.initSchema();
+    const result = this.sql.exec(
+      `INSERT INTO sync_log (last_sync_at) VALUES (CURRENT_TIMESTAMP) RETURNING id`
+    );
+    return result.one().id as number;
   }
 
+  // Starts a background sync, or resumes a failed one from its saved cursor.
+  // The pages are fetched one per alarm, see runSyncStep.
   async syncFollows(username: string) {
     await this.initSchema();
 
-    console.log(`Starting sync for user: ${username}`);
+    const job = this.getSyncJob();
+    if (job && (job.state === "running" || job.state === "backoff")) {
+      console.log(`Sync already ${job.state} for user: ${username}`);
+      return this.getSyncStatus();
+    }
+
+    if (job && job.state === "failed") {
+      console.log(`Resuming failed sync for user: ${username}`);
+      this.sql.exec(
+        `UPDATE sync_job SET state = 'running', attempts = 0, error = NULL, next_run_at = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = 1`
+      );
+    } else {
+      console.log(`Starting sync for user: ${username}`);
+
+      // Update sync time at the start
+      const syncId = await this.updateSyncTime();
+
+      // Pages are staged first, so the follows table is only touched once both lists are complete
+      this.sql.exec(`DELETE FROM sync_staging`);
+      this.sql.exec(
+        `INSERT OR REPLACE INTO sync_job
+         (id, sync_id, username, state, phase, cursor, pages, attempts, error, next_run_at, started_at, updated_at, completed_at)
+         VALUES (1, ?, ?, 'running', 'followings', NULL, 0, 0, NULL, NULL, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP, NULL)`,
+        syncId,
+        username
+      );
+    }
+
+    await this.scheduleAlarm();
+    return this.getSyncStatus();
+  }
+
+  // A durable object has a single alarm, shared by the sync job, tweet fetching,
+  // follow-ups and webhook deliveries
+  async alarm() {
+    await this.initSchema();
+
+    const job = this.getSyncJob();
+    if (
+      job?.state === "running" ||
+      (job?.state === "backoff" &&
+        new Date(job.next_run_at as string).getTime() <= Date.now())
+    ) {
+      await this.runSyncStep();
+    }
+
+    const tweetsDueAt = this.nextTweetFetchAt();
+    if (tweetsDueAt !== null && tweetsDueAt <= Date.now()) {
+      await this.runTweetFetchStep();
+    }
+
+    this.markOverdueFollowUps();
+    await this.deliverWebhooks();
+    await this.scheduleAlarm();
+  }
+
+  // Sets the alarm to the earliest moment any scheduled work is due
+  async scheduleAlarm() {
+    const times: number[] = [];
+
+    const job = this.getSyncJob();
+    if (job?.state === "running") {
+      times.push(Date.now());
+    } else if (job?.state === "backoff") {
+      times.push(new Date(job.next_run_at as string).getTime());
+    }
+
+    const { due_at } = this.sql
+      .exec(
+        `SELECT MIN(due_at) AS due_at FROM follow_ups WHERE status = 'pending'`
+      )
+      .one();
+    if (due_at) times.push(new Date(due_at as string).getTime());
+
+    const tweetsDueAt = this.nextTweetFetchAt();
+    if (tweetsDueAt !== null) times.push(tweetsDueAt);
+
+    const { next_attempt_at } = this.sql
+      .exec(
+        `SELECT MIN(next_attempt_at) AS next_attempt_at FROM webhook_deliveries WHERE status = 'pending'`
+      )
+      .one();
+    if (next_attempt_at) times.push(new Date(next_attempt_at as string).getTime());
+
+    if (times.length === 0) {
+      await this.ctx.storage.deleteAlarm();
+    } else {
+      await this.ctx.storage.setAlarm(Math.min(...times));
+    }
+  }
+
+  getSyncJob() {
+    const rows = this.sql.exec(`SELECT * FROM sync_job WHERE id = 1`).toArray();
+    return rows.length > 0 ? rows[0] : null;
+  }
+
+  // Progress of the sync job, and how much of the sync policy is left for the
+  // given user: when they can sync next and how many pages a sync may still fetch
+  async getSyncStatus(username?: string) {
+    await this.initSchema();
+    const job = this.getSyncJob();
+    if (!job) {
+      return {
+        state: "idle",
+        pages: 0,
+        contacts: 0,
+        quota: await this.getSyncQuota(username, null),
+      };
+    }
+
+    const { contacts } = this.sql
+      .exec(`SELECT COUNT(*) AS contacts FROM sync_staging`)
+      .one();
+
+    return {
+      state: job.state,
+      phase: job.phase,
+      pages: job.pages,
+      // Staging is cleared once a sync completes, so report the number of synced contacts then
+      contacts:
+        job.state === "completed"
+          ? this.sql
+              .exec(
+                `SELECT COUNT(*) AS count FROM follows WHERE archived_at IS NULL`
+              )
+              .one().count
+          : contacts,
+      attempts: job.attempts,
+      error: job.error,
+      next_retry_at: job.state === "backoff" ? job.next_run_at : null,
+      started_at: job.started_at,
+      updated_at: job.updated_at,
+      completed_at: job.completed_at,
+      quota: await this.getSyncQuota(username, job),
+    };
+  }
+
+  async getSyncQuota(
+    username: string | undefined,
+    job: Record<string, SqlStorageValue> | null
+  ): Promise<SyncQuota> {
+    const policy = getSyncPolicy(this.env);
+    const active = job?.state === "running" || job?.state === "backoff";
+    const usage = this.sql
+      .exec(
+        `SELECT COUNT(*) AS syncs, COALESCE(SUM(pages), 0) AS pages, COALESCE(SUM(api_calls), 0) AS api_calls
+         FROM sync_log WHERE last_sync_at >= datetime('now', '-30 days')`
+      )
+      .one();
+
+    return {
+      ...getSyncAllowance(
+        policy,
+        username,
+        await this.getLastSyncTime()
+      ),
+      max_pages: policy.maxPages,
+      pages_remaining:
+        policy.maxPages === null
+          ? null
+          : Math.max(policy.maxPages - (active ? (job.pages as number) : 0), 0),
+      usage_30d: {
+        syncs: usage.syncs as number,
+        pages: usage.pages as number,
+        api_calls: usage.api_calls as number,
+      },
+    };
+  }
+
+  // Fetches one page of the running sync job, alarm() schedules the next step
+  async runSyncStep() {
+    const job = this.getSyncJob();
+    if (!job || (job.state !== "running" && job.state !== "backoff")) {
+      return;
+    }
+
+    const endpoint = job.phase as "followings" | "followers";
+    const cursor = job.cursor as string | null;
+
+    this.sql.exec(
+      `UPDATE sync_log SET api_calls = api_calls + 1 WHERE id = ?`,
+      job.sync_id
+    );
+
+    let page: { users: any[]; has_next_page: boolean; next_cursor: string };
+    try {
+      page = await this.fetchPage(job.username as string, endpoint, cursor);
+    } catch (error) {
+      const attempts = (job.attempts as number) + 1;
+      const retryable =
+        !(error instanceof TwitterApiError) ||
+        error.status === 429 ||
+        error.status >= 500;
+
+      if (retryable && attempts < MAX_SYNC_ATTEMPTS) {
+        const delay = Math.min(
+          SYNC_BACKOFF_BASE_MS * 2 ** (attempts - 1),
+          SYNC_BACKOFF_MAX_MS
+        );
+        console.error(
+          `Sync page failed (attempt ${attempts}), retrying in ${delay}ms:`,
+          error
+        );
+        this.sql.exec(
+          `UPDATE sync_job SET state = 'backoff', attempts = ?, error = ?, next_run_at = ?, updated_at = CURRENT_TIMESTAMP WHERE id = 1`,
+          attempts,
+          error.message,
+          new Date(Date.now() + delay).toISOString()
+        );
+      } else {
+        console.error(`Sync failed after ${attempts} attempts:`, error);
+        this.sql.exec(
+          `UPDATE sync_job SET state = 'failed', attempts = ?, error = ?, next_run_at = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = 1`,
+          attempts,
+          error.message
+        );
+      }
+      return;
+    }
 
-    // Update sync time at the start
-    await this.updateSyncTime();
+    for (const user of page.users) {
+      this.sql.exec(
+        `INSERT INTO sync_staging (user_id, profile, following, follower)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT(user_id) DO UPDATE SET
+           profile = excluded.profile,
+           following = MAX(following, excluded.following),
+           follower = MAX(follower, excluded.follower)`,
+        user.id,
+        JSON.stringify(user),
+        endpoint === "followings" ? 1 : 0,
+        endpoint === "followers" ? 1 : 0
+      );
+    }
 
-    // Store existing notes and tags before clearing
-    const existingData = this.sql.exec(
-      `SELECT username, note, tags FROM follows WHERE note IS NOT NULL OR tags IS NOT NULL`
+    this.sql.exec(
+      `UPDATE sync_log SET pages = pages + 1 WHERE id = ?`,
+      job.sync_id
     );
-    const existingMap = new Map();
-    for (const row of existingData.toArray()) {
-      existingMap.set(row.username, { note: row.note, tags: row.tags });
+
+    // Continue if we have more pages and got 200 results (indicating there might be more)
+    // Also continue if has_next_page is true
+    const hasMore =
+      (page.users.length >= 200 || page.has_next_page) && !!page.next_cursor;
+    const { maxPages } = getSyncPolicy(this.env);
+    const atLimit =
+      maxPages !== null &&
+      (job.pages as number) + 1 >= maxPages &&
+      (hasMore || endpoint === "followings");
+
+    if (atLimit) {
+      this.sql.exec(
+        `UPDATE sync_job SET pages = pages + 1, updated_at = CURRENT_TIMESTAMP WHERE id = 1`
+      );
+      this.finishSync(true);
+    } else if (hasMore) {
+      this.sql.exec(
+        `UPDATE sync_job SET state = 'running', cursor = ?, pages = pages + 1, attempts = 0, error = NULL, next_run_at = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = 1`,
+        page.next_cursor
+      );
+    } else if (endpoint === "followings") {
+      // Followings done, continue with followers from the first page
+      this.sql.exec(
+        `UPDATE sync_job SET state = 'running', phase = 'followers', cursor = NULL, pages = pages + 1, attempts = 0, error = NULL, next_run_at = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = 1`
+      );
+    } else {
+      this.sql.exec(
+        `UPDATE sync_job SET pages = pages + 1, updated_at = CURRENT_TIMESTAMP WHERE id = 1`
+      );
+      this.finishSync();
+    }
+  }
+
+  // Applies the staged followings and followers to the follows table. A sync
+  // truncated at SYNC_MAX_PAGES only adds and updates contacts: the lists are
+  // incomplete, so nobody is archived and relationships the sync didn't get to are kept.
+  finishSync(truncated = false) {
+    const job = this.getSyncJob();
+    const followingsComplete = !truncated || job.phase === "followers";
+
+    const fetched = new Map<string, SyncedUser>();
+    for (const row of this.sql
+      .exec(
+        `SELECT s.profile, s.following, s.follower, f.relationship
+         FROM sync_staging s LEFT JOIN follows f ON f.user_id = s.user_id AND f.archived_at IS NULL`
+      )
+      .toArray()) {
+      const user = JSON.parse(row.profile as string);
+      const was = (row.relationship as string) || "none";
+      fetched.set(user.id, {
+        user,
+        following:
+          row.following === 1 ||
+          (!followingsComplete && (was === "following" || was === "mutual")),
+        follower:
+          row.follower === 1 ||
+          (truncated && (was === "follower" || was === "mutual")),
+      });
+    }
+
+    const { count } = this.sql
+      .exec(
+        `SELECT COUNT(*) AS count FROM follows WHERE archived_at IS NULL AND source = 'sync'`
+      )
+      .one();
+    if (fetched.size === 0 && (count as number) > 0) {
+      this.sql.exec(
+        `UPDATE sync_job SET state = 'failed', error = ?, updated_at = CURRENT_TIMESTAMP WHERE id = 1`,
+        "Sync returned no users, refusing to archive all contacts"
+      );
+      return;
+    }
+
+    const diff = this.applySyncDiff(fetched, !truncated);
+
+    this.sql.exec(
+      `UPDATE sync_log SET completed_at = CURRENT_TIMESTAMP, added = ?, removed = ?, changed = ?, truncated = ? WHERE id = ?`,
+      JSON.stringify(diff.added),
+      JSON.stringify(diff.removed),
+      JSON.stringify(diff.changed),
+      truncated ? 1 : 0,
+      job.sync_id
+    );
+    this.sql.exec(`DELETE FROM sync_staging`);
+    this.sql.exec(
+      `UPDATE sync_job SET state = 'completed', cursor = NULL, error = ?, completed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP WHERE id = 1`,
+      truncated
+        ? `Stopped at the limit of ${job.pages} pages (SYNC_MAX_PAGES), contacts that weren't reached are kept as they were`
+        : null
+    );
+
+    // The first sync imports everyone, which isn't worth an event per contact
+    if ((count as number) > 0) {
+      for (const contact of diff.added) this.emitEvent("contact.added", contact);
+      for (const contact of diff.removed) {
+        this.emitEvent("contact.removed", contact);
+      }
+    }
+    this.emitEvent("sync.completed", {
+      sync_id: job.sync_id,
+      contacts: fetched.size,
+      pages: job.pages,
+      truncated,
+      added: diff.added.length,
+      removed: diff.removed.length,
+      changed: diff.changed.length,
+    });
+
+    console.log(
+      `Sync completed: ${fetched.size} contacts across ${job.pages} pages (${diff.added.length} added, ${diff.removed.length} removed, ${diff.changed.length} changed)`
+    );
+  }
+
+  // Fetches one page of the followings or followers from the X provider
+  async fetchPage(
+    username: string,
+    endpoint: "followings" | "followers",
+    cursor: string | null
+  ) {
+    console.log(`Fetching ${endpoint}, cursor: ${cursor || "initial"}`);
+
+    const page =
+      endpoint === "followings"
+        ? await this.provider.getFollowings(username, cursor)
+        : await this.provider.getFollowers(username, cursor);
+
+    console.log(
+      `Got ${page.users.length} ${endpoint}, has_next_page: ${page.has_next_page}, next_cursor: ${page.next_cursor}`
+    );
+
+    return page;
+  }
+
+  // Upserts the fetched users and archives synced contacts that are no longer in
+  // either list. Contacts added by hand stay, with relationship "none".
+  // Notes and tags are never touched, so they survive unfollows.
+  applySyncDiff(fetched: Map<string, SyncedUser>, archive = true) {
+    const existingRows = this.sql
+      .exec(
+        `SELECT user_id, username, ${TRACKED_PROFILE_FIELDS.join(
+          ", "
+        )}, archived_at, source FROM follows`
+      )
+      .toArray();
+    const existingMap = new Map(existingRows.map((row) => [row.user_id, row]));
+
+    const added = [];
+    const removed = [];
+    const changed = [];
+    const takenAt = new Date().toISOString();
+
+    for (const [userId, { user, following, follower }] of fetched) {
+      const relationship =
+        following && follower ? "mutual" : following ? "following" : "follower";
+      const profile = { ...toProfile(user), relationship };
+
+      const existing = existingMap.get(userId);
+      if (!existing || existing.archived_at) {
+        added.push({ user_id: userId, username: profile.username, relationship });
+      } else {
+        const fields = {};
+        for (const field of TRACKED_PROFILE_FIELDS) {
+          if ((existing[field] ?? null) !== (profile[field] ?? null)) {
+            fields[field] = { from: existing[field], to: profile[field] };
+          }
+        }
+        if (Object.keys(fields).length > 0) {
+          changed.push({ user_id: userId, username: profile.username, fields });
+        }
+      }
+
+      this.upsertProfile(user, relationship, takenAt);
+    }
+
+    for (const row of existingRows) {
+      if (!archive || row.archived_at || fetched.has(row.user_id as string)) {
+        continue;
+      }
+
+      if (row.source === "sync") {
+        this.sql.exec(
+          `UPDATE follows SET archived_at = CURRENT_TIMESTAMP WHERE user_id = ?`,
+          row.user_id
+        );
+        removed.push({ user_id: row.user_id, username: row.username });
+      } else if (row.relationship !== "none") {
+        this.sql.exec(
+          `UPDATE follows SET relationship = 'none' WHERE user_id = ?`,
+          row.user_id
+        );
+        changed.push({
+          user_id: row.user_id,
+          username: row.username,
+          fields: { relationship: { from: row.relationship, to: "none" } },
+        });
+      }
+    }
+
+    return { added, removed, changed };
+  }
+
+  // Stores the profile of an X user, with a snapshot for growth and change
+  // tracking, the links from their bio and their handle. A source is only set
+  // for contacts added by hand, syncs keep the existing one.
+  upsertProfile(
+    user: any,
+    relationship: string,
+    takenAt: string,
+    source?: string
+  ) {
+    const userId = String(user.id);
+    const profile = toProfile(user);
+
+    this.sql.exec(
+      `INSERT INTO follows 
+       (user_id, username, name, profile_image_url, description, 
+        followers_count, following_count, verified_type, is_blue_verified, 
+        location, created_at, relationship, archived_at, synced_at, source) 
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL, CURRENT_TIMESTAMP, ?)
+       ON CONFLICT(user_id) DO UPDATE SET
+         username = excluded.username,
+         name = excluded.name,
+         profile_image_url = excluded.profile_image_url,
+         description = excluded.description,
+         followers_count = excluded.followers_count,
+         following_count = excluded.following_count,
+         verified_type = excluded.verified_type,
+         is_blue_verified = excluded.is_blue_verified,
+         location = excluded.location,
+         created_at = excluded.created_at,
+         relationship = excluded.relationship,
+         archived_at = NULL,
+         synced_at = CURRENT_TIMESTAMP${
+           source ? ", source = excluded.source" : ""
+         }`,
+      userId,
+      profile.username,
+      profile.name,
+      profile.profile_image_url,
+      profile.description,
+      user.followers_count,
+      user.following_count,
+      profile.verified_type,
+      profile.is_blue_verified,
+      profile.location,
+      toIsoDate(user.createdAt),
+      relationship,
+      source || "sync"
+    );
+
+    this.sql.exec(
+      `INSERT OR REPLACE INTO profile_snapshots
+       (user_id, taken_at, followers_count, following_count, description, location, verified_type)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      userId,
+      takenAt,
+      user.followers_count,
+      user.following_count,
+      profile.description,
+      profile.location,
+      profile.verified_type
+    );
+
+    // Enrichment: links, emails and handles from the bio and profile url
+    this.sql.exec(`DELETE FROM contact_links WHERE user_id = ?`, userId);
+    for (const link of extractLinks(user)) {
+      this.sql.exec(
+        `INSERT OR IGNORE INTO contact_links (user_id, type, url, label) VALUES (?, ?, ?, ?)`,
+        userId,
+        link.type,
+        link.url,
+        link.label
+      );
+    }
+
+    this.sql.exec(
+      `INSERT INTO username_history (user_id, username) VALUES (?, ?)
+       ON CONFLICT(user_id, username) DO UPDATE SET last_seen_at = CURRENT_TIMESTAMP`,
+      userId,
+      profile.username
+    );
+  }
+
+  // Returns the diff of the most recent completed sync
+  async getSyncChanges() {
+    await this.initSchema();
+    const rows = this.sql
+      .exec(
+        `SELECT id, last_sync_at, completed_at, added, removed, changed
+         FROM sync_log
+         WHERE completed_at IS NOT NULL
+         ORDER BY id DESC
+         LIMIT 1`
+      )
+      .toArray();
+
+    if (rows.length === 0) return null;
+
+    const row = rows[0];
+    return {
+      sync_id: row.id,
+      started_at: row.last_sync_at,
+      completed_at: row.completed_at,
+      added: JSON.parse((row.added as string) || "[]") as Array<{
+        user_id: string;
+        username: string;
+        relationship: string;
+      }>,
+      removed: JSON.parse((row.removed as string) || "[]") as Array<{
+        user_id: string;
+        username: string;
+      }>,
+      changed: JSON.parse((row.changed as string) || "[]") as Array<{
+        user_id: string;
+        username: string;
+        fields: Record<string, { from: string | null; to: string | null }>;
+      }>,
+    };
+  }
+
+  // Bio, location and verification changes seen between snapshots since a date,
+  // and the contacts that gained the most followers since then
+  async getChanges(options: ChangesQuery = {}) {
+    await this.initSchema();
+
+    const since =
+      options.since ||
+      new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
+    const events = (options.events?.length
+      ? options.events
+      : Object.keys(PROFILE_CHANGE_FIELDS)
+    ).filter((event) => PROFILE_CHANGE_FIELDS[event]);
+    const limit = options.limit || 50;
+
+    const conditions = [`archived_at IS NULL`];
+    const params: SqlStorageValue[] = [];
+    if (options.relationship) {
+      conditions.push(`relationship = ?`);
+      params.push(options.relationship);
+    }
+    if (options.tag) {
+      conditions.push(
+        `user_id IN (SELECT ct.user_id FROM contact_tags ct JOIN tags t ON t.id = ct.tag_id WHERE t.name = ?)`
+      );
+      params.push(options.tag.trim());
+    }
+    const where = conditions.join(" AND ");
+
+    const rows = this.sql
+      .exec(
+        `SELECT f.username, f.name, s.*
+         FROM (
+           SELECT user_id, taken_at, description, location, verified_type,
+                  LAG(taken_at) OVER w AS previous_taken_at,
+                  LAG(description) OVER w AS previous_description,
+                  LAG(location) OVER w AS previous_location,
+                  LAG(verified_type) OVER w AS previous_verified_type
+           FROM profile_snapshots
+           WINDOW w AS (PARTITION BY user_id ORDER BY taken_at)
+         ) s
+         JOIN follows f ON f.user_id = s.user_id
+         WHERE s.taken_at >= ? AND s.previous_taken_at IS NOT NULL
+           AND s.user_id IN (SELECT user_id FROM follows WHERE ${where})
+         ORDER BY s.taken_at DESC`,
+        since,
+        ...params
+      )
+      .toArray();
+
+    const changes = [];
+    for (const row of rows) {
+      for (const event of events) {
+        const column = PROFILE_CHANGE_FIELDS[event];
+        if ((row[column] ?? "") !== (row[`previous_${column}`] ?? "")) {
+          changes.push({
+            username: row.username as string,
+            name: row.name as string,
+            event: `${event}_changed`,
+            from: row[`previous_${column}`] as string | null,
+            to: row[column] as string | null,
+            detected_at: row.taken_at as string,
+          });
+        }
+      }
+    }
+
+    const growth = followersGrowthColumn("?");
+    const fastestGrowing = this.sql
+      .exec(
+        `SELECT username, name, followers_count, ${growth} AS followers_growth
+         FROM follows
+         WHERE ${where}
+         ORDER BY followers_growth DESC, followers_count DESC
+         LIMIT ?`,
+        since,
+        since,
+        ...params,
+        limit
+      )
+      .toArray()
+      .filter((row) => (row.followers_growth as number) > 0)
+      .map((row) => ({
+        username: row.username as string,
+        name: row.name as string,
+        followers_count: row.followers_count as number,
+        followers_growth: row.followers_growth as number,
+      }));
+
+    return {
+      since,
+      changes: changes.slice(0, limit),
+      total_changes: changes.length,
+      fastest_growing: fastestGrowing,
+    };
+  }
+
+  // Follower counts per contact over the last `days`, oldest first, for sparklines
+  async getFollowerSeries(days = 90): Promise<Record<string, number[]>> {
+    await this.initSchema();
+
+    const series: Record<string, number[]> = {};
+    for (const row of this.sql
+      .exec(
+        `SELECT user_id, followers_count FROM profile_snapshots
+         WHERE taken_at >= ${daysAgo(days)}
+         ORDER BY user_id, taken_at`
+      )
+      .toArray()) {
+      (series[row.user_id as string] ||= []).push(row.followers_count as number);
+    }
+    return series;
+  }
+
+  async getFollows(options: FollowsQuery = {}): Promise<FollowsPage> {
+    await this.initSchema();
+
+    const fields = options.fields?.length
+      ? FOLLOW_FIELDS.filter(
+          (field) => field === "username" || options.fields.includes(field)
+        )
+      : FOLLOW_FIELDS;
+    const columns = fields.map((field) =>
+      COMPUTED_COLUMNS[field] ? `${COMPUTED_COLUMNS[field]} AS ${field}` : field
+    );
+
+    // Archived contacts (no longer following or followed) are only returned on request
+    const conditions = [
+      options.user_id
+        ? `user_id = ?`
+        : options.archived
+        ? `archived_at IS NOT NULL`
+        : `archived_at IS NULL`,
+    ];
+    const params: SqlStorageValue[] = options.user_id ? [options.user_id] : [];
+    if (options.tag) {
+      conditions.push(
+        `user_id IN (SELECT ct.user_id FROM contact_tags ct JOIN tags t ON t.id = ct.tag_id WHERE t.name = ?)`
+      );
+      params.push(options.tag.trim());
+    }
+
+    if (options.untagged) {
+      conditions.push(`user_id NOT IN (SELECT user_id FROM contact_tags)`);
+    }
+
+    if (options.relationship) {
+      conditions.push(`relationship = ?`);
+      params.push(options.relationship);
+    }
+
+    if (options.min_followers !== undefined) {
+      conditions.push(`followers_count >= ?`);
+      params.push(options.min_followers);
+    }
+
+    if (options.max_followers !== undefined) {
+      conditions.push(`followers_count <= ?`);
+      params.push(options.max_followers);
+    }
+
+    if (options.location) {
+      conditions.push(`location LIKE ?`);
+      params.push(`%${options.location}%`);
+    }
+
+    if (options.verified) {
+      conditions.push(`(verified_type IS NOT NULL OR is_blue_verified = 1)`);
+    }
+
+    if (options.has_note !== undefined) {
+      conditions.push(
+        options.has_note
+          ? `note IS NOT NULL AND note != ''`
+          : `(note IS NULL OR note = '')`
+      );
+    }
+
+    for (const filter of options.custom || []) {
+      if (filter.value) {
+        conditions.push(
+          `user_id IN (SELECT user_id FROM contact_field_values WHERE field = ? AND value LIKE ?)`
+        );
+        params.push(filter.name, `%${filter.value}%`);
+      } else {
+        conditions.push(
+          `user_id IN (SELECT user_id FROM contact_field_values WHERE field = ?)`
+        );
+        params.push(filter.name);
+      }
+    }
+
+    if (options.has_link) {
+      conditions.push(
+        `user_id IN (SELECT user_id FROM contact_links WHERE type = ?)`
+      );
+      params.push(options.has_link);
+    }
+
+    // created_at is stored as ISO 8601, so dates compare as strings
+    if (options.created_after) {
+      conditions.push(`created_at >= ?`);
+      params.push(options.created_after);
+    }
+
+    if (options.created_before) {
+      conditions.push(`created_at < ?`);
+      params.push(options.created_before);
+    }
+
+    const where = ` WHERE ${conditions.join(" AND ")}`;
+
+    const { total } = this.sql
+      .exec(`SELECT COUNT(*) AS total FROM follows${where}`, ...params)
+      .one();
+
+    const sort =
+      COMPUTED_COLUMNS[options.sort] || options.sort || "followers_count";
+    const order = options.order === "asc" ? "ASC" : "DESC";
+    let query = `SELECT ${columns.join(", ")} FROM follows${where}
+      ORDER BY ${sort} ${order}, username ASC`;
+
+    if (options.limit !== undefined) {
+      query += ` LIMIT ? OFFSET ?`;
+      params.push(options.limit, options.offset || 0);
+    }
+
+    const follows = this.sql
+      .exec(query, ...params)
+      .toArray()
+      .map((row): Follow => {
+        const follow: Follow = { ...row };
+        for (const column of JSON_COLUMNS) {
+          if (column in row) {
+            follow[column] = JSON.parse(row[column] as string);
+          }
+        }
+        return follow;
+      });
+    const offset = options.limit !== undefined ? options.offset || 0 : 0;
+    const nextOffset = offset + follows.length;
+
+    return {
+      follows,
+      total: total as number,
+      offset,
+      next_offset: nextOffset < (total as number) ? nextOffset : null,
+    };
+  }
+
+  // Ranked full-text search over name, username, bio, location and note
+  async searchContacts(
+    q: string,
+    limit = 20,
+    tag?: string,
+    relationship?: string
+  ) {
+    await this.initSchema();
+
+    const match = toFtsQuery(q);
+    if (!match) return [];
+
+    const conditions = [`follows_fts MATCH ?`, `follows.archived_at IS NULL`];
+    const params: any[] = [match];
+
+    if (tag) {
+      conditions.push(
+        `follows.user_id IN (SELECT ct.user_id FROM contact_tags ct JOIN tags t ON t.id = ct.tag_id WHERE t.name = ?)`
+      );
+      params.push(tag.trim());
+    }
+
+    if (relationship) {
+      conditions.push(`follows.relationship = ?`);
+      params.push(relationship);
+    }
+
+    params.push(limit);
+
+    // Matches in name and username weigh more than in bio, location or note
+    const result = this.sql.exec(
+      `SELECT follows.user_id, follows.username, follows.name, follows.profile_image_url,
+              follows.description, follows.followers_count, follows.following_count,
+              follows.verified_type, follows.is_blue_verified, follows.location,
+              follows.created_at, follows.note, ${TAGS_COLUMN} AS tags, follows.relationship,
+              ${LAST_INTERACTION_COLUMN} AS last_interaction_at,
+              follows.archived_at, follows.synced_at,
+              snippet(follows_fts, -1, '**', '**', '…', 16) AS snippet,
+              bm25(follows_fts, 4.0, 4.0, 1.0, 2.0, 2.0) AS rank
+       FROM follows_fts
+       JOIN follows ON follows.rowid = follows_fts.rowid
+       WHERE ${conditions.join(" AND ")}
+       ORDER BY rank
+       LIMIT ?`,
+      ...params
+    );
+    return result.toArray();
+  }
+
+  // Resolves a (possibly old) handle to the contact's stable user_id and current username
+  async resolveUsername(
+    username: string
+  ): Promise<{ user_id: string; username: string } | null> {
+    await this.initSchema();
+    const handle = username.replace(/^@/, "");
+
+    const current = this.sql
+      .exec(
+        `SELECT user_id, username FROM follows WHERE username = ? COLLATE NOCASE`,
+        handle
+      )
+      .toArray();
+    if (current.length > 0) {
+      return {
+        user_id: current[0].user_id as string,
+        username: current[0].username as string,
+      };
+    }
+
+    const previous = this.sql
+      .exec(
+        `SELECT f.user_id, f.username FROM username_history h
+         JOIN follows f ON f.user_id = h.user_id
+         WHERE h.username = ? COLLATE NOCASE
+         ORDER BY h.last_seen_at DESC
+         LIMIT 1`,
+        handle
+      )
+      .toArray();
+    if (previous.length > 0) {
+      return {
+        user_id: previous[0].user_id as string,
+        username: previous[0].username as string,
+      };
+    }
+
+    return null;
+  }
+
+  // Profile, note, tags, custom fields, recent interactions, pipeline stages and
+  // previous usernames of a contact. Archived contacts are included.
+  async getContact(username: string): Promise<ContactDetails | null> {
+    await this.initSchema();
+
+    const resolved = await this.resolveUsername(username);
+    if (!resolved) return null;
+
+    const {
+      follows: [contact],
+    } = await this.getFollows({ user_id: resolved.user_id });
+
+    const interactions = this.sql
+      .exec(
+        `SELECT type, text, link, occurred_at FROM interactions
+         WHERE user_id = ? ORDER BY occurred_at DESC, id DESC LIMIT 20`,
+        resolved.user_id
+      )
+      .toArray()
+      .map((row) => ({
+        type: row.type as string,
+        text: row.text as string,
+        link: row.link as string | null,
+        occurred_at: row.occurred_at as string,
+      }));
+
+    const stages = this.sql
+      .exec(
+        `SELECT p.name AS pipeline, cs.stage, cs.entered_at
+         FROM contact_stages cs JOIN pipelines p ON p.id = cs.pipeline_id
+         WHERE cs.user_id = ? ORDER BY p.name COLLATE NOCASE`,
+        resolved.user_id
+      )
+      .toArray()
+      .map((row) => ({
+        pipeline: row.pipeline as string,
+        stage: row.stage as string,
+        entered_at: row.entered_at as string,
+      }));
+
+    const previousUsernames = (await this.getUsernameHistory(resolved.user_id))
+      .map((row) => row.username as string)
+      .filter(
+        (name) => name.toLowerCase() !== resolved.username.toLowerCase()
+      );
+
+    return {
+      contact,
+      interactions,
+      stages,
+      previous_usernames: previousUsernames,
+    };
+  }
+
+  async getUsernameHistory(userId: string) {
+    await this.initSchema();
+    return this.sql
+      .exec(
+        `SELECT username, first_seen_at, last_seen_at FROM username_history
+         WHERE user_id = ? ORDER BY last_seen_at DESC`,
+        userId
+      )
+      .toArray();
+  }
+
+  // Adds someone the user doesn't follow, with their profile looked up on X.
+  // A contact archived by an earlier sync is restored and kept from then on.
+  async addContact(
+    username: string,
+    update: ContactUpdate = {},
+    source = "web"
+  ): Promise<AddedContact> {
+    await this.initSchema();
+
+    const handle = username.replace(/^@/, "").trim();
+    // Known handles are answered from the CRM, only unknown ones cost a lookup
+    const known = await this.resolveUsername(handle);
+    if (known) {
+      const { archived_at } = this.sql
+        .exec(`SELECT archived_at FROM follows WHERE user_id = ?`, known.user_id)
+        .one();
+      if (!archived_at) {
+        return {
+          added: false,
+          username: known.username,
+          error: `@${known.username} is already a contact`,
+        };
+      }
+
+      this.sql.exec(
+        `UPDATE follows SET archived_at = NULL, relationship = 'none', source = 'lookup' WHERE user_id = ?`,
+        known.user_id
+      );
+      return this.finishAddContact(
+        known.user_id,
+        known.username,
+        true,
+        update,
+        source
+      );
+    }
+
+    const user = await this.provider.getUser(handle);
+    if (!user) {
+      return { added: false, error: `X user '${handle}' not found` };
+    }
+
+    // Someone known under an older handle than the one given
+    const existing = this.sql
+      .exec(
+        `SELECT username, archived_at FROM follows WHERE user_id = ?`,
+        String(user.id)
+      )
+      .toArray()[0];
+    if (existing && !existing.archived_at) {
+      return {
+        added: false,
+        username: existing.username as string,
+        error: `@${existing.username} is already a contact`,
+      };
+    }
+
+    this.upsertProfile(user, "none", new Date().toISOString(), "lookup");
+    return this.finishAddContact(
+      String(user.id),
+      user.userName,
+      !!existing,
+      update,
+      source
+    );
+  }
+
+  // Adds someone without an X account. Their handle is made from their name and
+  // always contains a hyphen, which X handles can't, so it never clashes with synced ones.
+  async addManualContact(
+    contact: ManualContact,
+    update: ContactUpdate = {},
+    source = "web"
+  ): Promise<AddedContact> {
+    await this.initSchema();
+
+    const name = contact.name?.trim();
+    if (!name) {
+      return { added: false, error: "Name required" };
+    }
+
+    const base =
+      name
+        .normalize("NFKD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "") || "contact";
+    let username = base.includes("-") ? base : `${base}-1`;
+    for (let n = 2; await this.resolveUsername(username); n++) {
+      username = `${base}-${n}`;
+    }
+
+    const userId = `manual:${crypto.randomUUID()}`;
+    this.sql.exec(
+      `INSERT INTO follows (user_id, username, name, description, location, relationship, source, synced_at)
+       VALUES (?, ?, ?, ?, ?, 'none', 'manual', NULL)`,
+      userId,
+      username,
+      name,
+      contact.description || null,
+      contact.location || null
+    );
+    this.sql.exec(
+      `INSERT INTO username_history (user_id, username) VALUES (?, ?)`,
+      userId,
+      username
+    );
+
+    return this.finishAddContact(userId, username, false, update, source);
+  }
+
+  // Applies the note, tags and follow-up given with a new contact and emits contact.added
+  async finishAddContact(
+    userId: string,
+    username: string,
+    restored: boolean,
+    update: ContactUpdate,
+    source: string
+  ): Promise<AddedContact> {
+    const { source: contactSource } = this.sql
+      .exec(`SELECT source FROM follows WHERE user_id = ?`, userId)
+      .one();
+
+    let error: string | undefined;
+    if (Object.values(update).some((value) => value !== undefined)) {
+      try {
+        this.applyContactUpdate(
+          userId,
+          update,
+          this.newBatch("addContact", source)
+        );
+      } catch (e) {
+        error = e.message;
+      }
+    }
+
+    this.emitEvent("contact.added", {
+      user_id: userId,
+      username,
+      relationship: "none",
+      source: contactSource,
+    });
+    await this.scheduleAlarm();
+
+    return {
+      added: true,
+      user_id: userId,
+      username,
+      source: contactSource as string,
+      restored,
+      ...(error ? { error } : {}),
+    };
+  }
+
+  async updateContact(
+    username: string,
+    update: ContactUpdate,
+    source = "web"
+  ) {
+    await this.initSchema();
+
+    if (
+      update.note === undefined &&
+      update.tags === undefined &&
+      update.follow_up_at === undefined &&
+      update.fields === undefined
+    ) {
+      return { updated: false, error: "No updates provided" };
+    }
+
+    const contact = await this.resolveUsername(username);
+    if (!contact) {
+      return {
+        updated: false,
+        error: `Username '${username}' not found, add them with addContact`,
+      };
+    }
+
+    try {
+      this.applyContactUpdate(
+        contact.user_id,
+        update,
+        this.newBatch("updateContact", source)
+      );
+    } catch (error) {
+      return { updated: false, error: error.message };
+    }
+    await this.scheduleAlarm();
+
+    return {
+      updated: true,
+      username: contact.username,
+      ...(contact.username.toLowerCase() !==
+      username.replace(/^@/, "").toLowerCase()
+        ? { renamedFrom: username }
+        : {}),
+    };
+  }
+
+  async updateBulk(
+    updates: Array<ContactUpdate & { username: string }>,
+    source = "web"
+  ) {
+    await this.initSchema();
+
+    const batch = this.newBatch("updateBulk", source);
+    let successCount = 0;
+    let errorCount = 0;
+    const errors = [];
+
+    for (const update of updates) {
+      try {
+        const contact = await this.resolveUsername(update.username);
+        if (!contact) {
+          errorCount++;
+          errors.push(`Username '${update.username}' not found`);
+          continue;
+        }
+
+        // Tags are only replaced when given, so follow-up or field updates keep them
+        this.applyContactUpdate(contact.user_id, update, batch);
+
+        successCount++;
+      } catch (error) {
+        errorCount++;
+        errors.push(`Error updating '${update.username}': ${error.message}`);
+      }
+    }
+
+    await this.scheduleAlarm();
+
+    return {
+      success: successCount,
+      errors: errorCount,
+      errorDetails: errors,
+      batch_id: batch.id,
+    };
+  }
+
+  // Imports notes, tags, follow-ups and custom field values. Rows match on
+  // user_id, or else on (current or previous) username. Modes:
+  // - overwrite: provided values replace the stored ones, empty values clear
+  // - fill-empty: values are only written where nothing is stored yet
+  // - append-notes: like fill-empty, but notes are appended and tags added
+  async importContacts(rows: ImportRow[], mode = "fill-empty", source = "web") {
+    await this.initSchema();
+
+    const batch = this.newBatch("importContacts", source);
+    let successCount = 0;
+    let errorCount = 0;
+    const errors = [];
+    const report = [];
+
+    for (const [index, row] of rows.entries()) {
+      const rowNumber = index + 1;
+      const label = row.username || row.user_id || "";
+      try {
+        const contact = row.user_id
+          ? this.sql
+              .exec(
+                `SELECT user_id, username FROM follows WHERE user_id = ?`,
+                row.user_id
+              )
+              .toArray()[0]
+          : row.username
+          ? await this.resolveUsername(row.username)
+          : null;
+
+        if (!contact) {
+          errorCount++;
+          const error = label
+            ? `'${label}' not found`
+            : "Row has no user_id or username";
+          errors.push(`Row ${rowNumber}: ${error}`);
+          report.push({ row: rowNumber, username: label, status: "not_found", error });
+          continue;
+        }
+
+        const update = this.mergeImportRow(contact.user_id as string, row, mode);
+        const changed = Object.keys(update).filter(
+          (key) => key !== "follow_up_reason"
+        );
+        if (changed.length > 0) {
+          this.applyContactUpdate(contact.user_id as string, update, batch);
+        }
+
+        successCount++;
+        report.push({
+          row: rowNumber,
+          username: contact.username,
+          status: changed.length > 0 ? "updated" : "unchanged",
+          changed,
+        });
+      } catch (error) {
+        errorCount++;
+        errors.push(`Row ${rowNumber}: error importing '${label}': ${error.message}`);
+        report.push({
+          row: rowNumber,
+          username: label,
+          status: "error",
+          error: error.message,
+        });
+      }
+    }
+
+    await this.scheduleAlarm();
+
+    return {
+      success: successCount,
+      errors: errorCount,
+      errorDetails: errors,
+      rows: report,
+      batch_id: batch.id,
+    };
+  }
+
+  // Turns an import row into the update that the merge mode allows
+  mergeImportRow(userId: string, row: ImportRow, mode: string): ContactUpdate {
+    const current = this.sql
+      .exec(
+        `SELECT note, ${TAGS_COLUMN} AS tags, ${followUpColumn(
+          "due_at"
+        )} AS follow_up_at, ${followUpColumn("reason")} AS follow_up_reason
+         FROM follows WHERE user_id = ?`,
+        userId
+      )
+      .one();
+    const currentNote = ((current.note as string) || "").trim();
+    const currentTags = parseTags((current.tags as string) || "");
+    const overwrite = mode === "overwrite";
+    const update: ContactUpdate = {};
+
+    const note = row.note?.trim();
+    if (row.note !== undefined && overwrite) {
+      if (note !== currentNote) update.note = note;
+    } else if (note && !currentNote) {
+      update.note = note;
+    } else if (note && mode === "append-notes" && !currentNote.includes(note)) {
+      update.note = `${currentNote}\n\n${note}`;
+    }
+
+    if (row.tags !== undefined) {
+      const tags = parseTags(row.tags);
+      const key = (list: string[]) =>
+        list.map((tag) => tag.toLowerCase()).sort().join(",");
+      if (overwrite) {
+        if (key(tags) !== key(currentTags)) update.tags = tags.join(", ");
+      } else if (tags.length > 0 && currentTags.length === 0) {
+        update.tags = tags.join(", ");
+      } else if (mode === "append-notes") {
+        const merged = parseTags([...currentTags, ...tags].join(","));
+        if (merged.length > currentTags.length) update.tags = merged.join(", ");
+      }
+    }
+
+    const followUpAt = row.follow_up_at?.trim()
+      ? toFollowUpDueAt(row.follow_up_at.trim())
+      : "";
+    const currentFollowUpAt = (current.follow_up_at as string) || "";
+    if (
+      row.follow_up_at !== undefined &&
+      (overwrite
+        ? followUpAt !== currentFollowUpAt ||
+          (row.follow_up_reason || "") !== (current.follow_up_reason || "")
+        : followUpAt && !currentFollowUpAt)
+    ) {
+      update.follow_up_at = followUpAt || null;
+      update.follow_up_reason = row.follow_up_reason || undefined;
+    }
+
+    if (row.fields) {
+      const stored = new Map(
+        this.sql
+          .exec(
+            `SELECT field, value FROM contact_field_values WHERE user_id = ?`,
+            userId
+          )
+          .toArray()
+          .map((value) => [
+            (value.field as string).toLowerCase(),
+            value.value as string,
+          ])
+      );
+      const fields: Record<string, string | null> = {};
+      for (const [name, value] of Object.entries(row.fields)) {
+        const previous = stored.get(name.toLowerCase()) || "";
+        if (overwrite ? value.trim() !== previous : value.trim() && !previous) {
+          fields[name] = value.trim() || null;
+        }
+      }
+      if (Object.keys(fields).length > 0) update.fields = fields;
+    }
+
+    return update;
+  }
+
+  // Writes the provided fields of an update, leaving the others untouched.
+  // Custom field values are validated first, so an invalid value writes nothing.
+  applyContactUpdate(userId: string, update: ContactUpdate, batch: ChangeBatch) {
+    const fieldValues = update.fields
+      ? this.normalizeFieldValues(update.fields)
+      : [];
+
+    this.trackChanges([userId], batch, () => {
+      if (update.note !== undefined) {
+        this.sql.exec(
+          `UPDATE follows SET note = ? WHERE user_id = ?`,
+          update.note,
+          userId
+        );
+      }
+
+      if (update.tags !== undefined) {
+        this.setContactTags(userId, parseTags(update.tags));
+      }
+    });
+
+    if (update.follow_up_at !== undefined) {
+      this.setFollowUp(userId, update.follow_up_at, update.follow_up_reason);
+    }
+
+    for (const { name, value } of fieldValues) {
+      if (value === null) {
+        this.sql.exec(
+          `DELETE FROM contact_field_values WHERE user_id = ? AND field = ?`,
+          userId,
+          name
+        );
+      } else {
+        this.sql.exec(
+          `INSERT INTO contact_field_values (user_id, field, value) VALUES (?, ?, ?)
+           ON CONFLICT(user_id, field) DO UPDATE SET value = excluded.value`,
+          userId,
+          name,
+          value
+        );
+      }
+    }
+  }
+
+  // Validates values against the custom field definitions, null means clear
+  normalizeFieldValues(
+    values: Record<string, string | null>
+  ): Array<{ name: string; value: string | null }> {
+    const definitions = new Map(
+      this.getCustomFields().map((field) => [field.name.toLowerCase(), field])
+    );
+
+    return Object.entries(values).map(([name, value]) => {
+      const field = definitions.get(name.toLowerCase());
+      if (!field) {
+        throw new Error(
+          `Unknown custom field '${name}'. Define it first with defineField.`
+        );
+      }
+      if (value === null || value === undefined || String(value).trim() === "") {
+        return { name: field.name, value: null };
+      }
+      return { name: field.name, value: normalizeFieldValue(field, String(value)) };
+    });
+  }
+
+  getCustomFields(): CustomField[] {
+    return this.sql
+      .exec(`SELECT name, type, options FROM custom_fields ORDER BY created_at, name`)
+      .toArray()
+      .map((row) => ({
+        name: row.name as string,
+        type: row.type as string,
+        options: row.options ? JSON.parse(row.options as string) : null,
+      }));
+  }
+
+  async listFields() {
+    await this.initSchema();
+    return this.getCustomFields();
+  }
+
+  // Creates a custom field, or changes the type or options of an existing one
+  async defineField(name: string, type: string, options?: string[]) {
+    await this.initSchema();
+    this.sql.exec(
+      `INSERT INTO custom_fields (name, type, options) VALUES (?, ?, ?)
+       ON CONFLICT(name) DO UPDATE SET type = excluded.type, options = excluded.options`,
+      name,
+      type,
+      type === "select" ? JSON.stringify(options || []) : null
+    );
+    return this.getCustomFields().find(
+      (field) => field.name.toLowerCase() === name.toLowerCase()
+    );
+  }
+
+  // Deletes a custom field together with all its values
+  async deleteField(name: string) {
+    await this.initSchema();
+    const values = this.sql.exec(
+      `DELETE FROM contact_field_values WHERE field = ?`,
+      name
+    );
+    const result = this.sql.exec(`DELETE FROM custom_fields WHERE name = ?`, name);
+    return {
+      deleted: result.rowsWritten > 0,
+      field: name,
+      valuesDeleted: values.rowsWritten,
+    };
+  }
+
+  // Creates a pipeline, or changes the order of its stages. Stages that still
+  // hold contacts can't be dropped.
+  async createPipeline(name: string, stages: string[]) {
+    await this.initSchema();
+
+    const existing = this.getPipelineRow(name);
+    if (existing) {
+      const kept = new Set(stages.map((stage) => stage.toLowerCase()));
+      const occupied = this.sql
+        .exec(
+          `SELECT stage, COUNT(*) AS count FROM contact_stages WHERE pipeline_id = ? GROUP BY stage`,
+          existing.id
+        )
+        .toArray()
+        .filter((row) => !kept.has((row.stage as string).toLowerCase()));
+      if (occupied.length > 0) {
+        return {
+          error: `Stages still hold contacts: ${occupied
+            .map((row) => `${row.stage} (${row.count})`)
+            .join(", ")}. Move them first.`,
+        };
+      }
+    }
+
+    this.sql.exec(
+      `INSERT INTO pipelines (name) VALUES (?) ON CONFLICT(name) DO UPDATE SET name = excluded.name`,
+      name
+    );
+    const pipeline = this.getPipelineRow(name);
+    this.sql.exec(`DELETE FROM pipeline_stages WHERE pipeline_id = ?`, pipeline.id);
+    stages.forEach((stage, position) => {
+      this.sql.exec(
+        `INSERT INTO pipeline_stages (pipeline_id, name, position) VALUES (?, ?, ?)`,
+        pipeline.id,
+        stage,
+        position
+      );
+      // Keeps contacts in a stage whose casing changed
+      this.sql.exec(
+        `UPDATE contact_stages SET stage = ? WHERE pipeline_id = ? AND stage = ? COLLATE NOCASE`,
+        stage,
+        pipeline.id,
+        stage
+      );
+    });
+
+    return { pipeline: name, stages };
+  }
+
+  getPipelineRow(name: string): { id: number; name: string } | null {
+    const row = this.sql
+      .exec(`SELECT id, name FROM pipelines WHERE name = ?`, name.trim())
+      .toArray()[0];
+    return row ? { id: row.id as number, name: row.name as string } : null;
+  }
+
+  getPipelineStages(pipelineId: number): string[] {
+    return this.sql
+      .exec(
+        `SELECT name FROM pipeline_stages WHERE pipeline_id = ? ORDER BY position`,
+        pipelineId
+      )
+      .toArray()
+      .map((row) => row.name as string);
+  }
+
+  async listPipelines() {
+    await this.initSchema();
+
+    return this.sql
+      .exec(`SELECT id, name FROM pipelines ORDER BY name COLLATE NOCASE`)
+      .toArray()
+      .map((pipeline) => {
+        const counts = new Map(
+          this.sql
+            .exec(
+              `SELECT stage, COUNT(*) AS count FROM contact_stages WHERE pipeline_id = ? GROUP BY stage`,
+              pipeline.id
+            )
+            .toArray()
+            .map((row) => [row.stage as string, row.count as number])
+        );
+        return {
+          name: pipeline.name as string,
+          stages: this.getPipelineStages(pipeline.id as number).map((stage) => ({
+            name: stage,
+            count: counts.get(stage) || 0,
+          })),
+        };
+      });
+  }
+
+  // Deletes a pipeline together with the stages of its contacts
+  async deletePipeline(name: string) {
+    await this.initSchema();
+
+    const pipeline = this.getPipelineRow(name);
+    if (!pipeline) {
+      return { deleted: false, pipeline: name };
+    }
+
+    const contacts = this.sql.exec(
+      `DELETE FROM contact_stages WHERE pipeline_id = ?`,
+      pipeline.id
+    );
+    this.sql.exec(`DELETE FROM stage_history WHERE pipeline_id = ?`, pipeline.id);
+    this.sql.exec(`DELETE FROM pipeline_stages WHERE pipeline_id = ?`, pipeline.id);
+    this.sql.exec(`DELETE FROM pipelines WHERE id = ?`, pipeline.id);
+
+    return {
+      deleted: true,
+      pipeline: pipeline.name,
+      contactsRemoved: contacts.rowsWritten,
+    };
+  }
+
+  // Moves a contact to a stage of a pipeline, an empty stage takes them out.
+  // Every move is recorded in stage_history.
+  async setStage(username: string, pipelineName: string, stage: string | null) {
+    await this.initSchema();
+
+    const pipeline = this.getPipelineRow(pipelineName);
+    if (!pipeline) {
+      return { updated: false, error: `Pipeline '${pipelineName}' not found` };
+    }
+
+    const contact = await this.resolveUsername(username);
+    if (!contact) {
+      return { updated: false, error: `Username '${username}' not found` };
+    }
+
+    const stages = this.getPipelineStages(pipeline.id);
+    const nextStage = stage?.trim()
+      ? stages.find((name) => name.toLowerCase() === stage.trim().toLowerCase())
+      : null;
+    if (nextStage === undefined) {
+      return {
+        updated: false,
+        error: `Stage '${stage}' not found. Stages of '${pipeline.name}': ${stages.join(", ")}`,
+      };
+    }
+
+    const current = this.sql
+      .exec(
+        `SELECT stage FROM contact_stages WHERE pipeline_id = ? AND user_id = ?`,
+        pipeline.id,
+        contact.user_id
+      )
+      .toArray()[0];
+    const previousStage = (current?.stage as string) || null;
+    if (previousStage === nextStage) {
+      return {
+        updated: false,
+        username: contact.username,
+        pipeline: pipeline.name,
+        stage: nextStage,
+      };
+    }
+
+    if (nextStage === null) {
+      this.sql.exec(
+        `DELETE FROM contact_stages WHERE pipeline_id = ? AND user_id = ?`,
+        pipeline.id,
+        contact.user_id
+      );
+    } else {
+      this.sql.exec(
+        `INSERT INTO contact_stages (pipeline_id, user_id, stage, entered_at)
+         VALUES (?, ?, ?, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+         ON CONFLICT(pipeline_id, user_id) DO UPDATE SET stage = excluded.stage, entered_at = excluded.entered_at`,
+        pipeline.id,
+        contact.user_id,
+        nextStage
+      );
+    }
+    this.sql.exec(
+      `INSERT INTO stage_history (pipeline_id, user_id, from_stage, to_stage) VALUES (?, ?, ?, ?)`,
+      pipeline.id,
+      contact.user_id,
+      previousStage,
+      nextStage
+    );
+
+    return {
+      updated: true,
+      username: contact.username,
+      pipeline: pipeline.name,
+      from: previousStage,
+      stage: nextStage,
+    };
+  }
+
+  // Contacts per stage in stage order, with how long they have been in their stage
+  async getPipeline(name: string, includeHistory = false): Promise<Pipeline> {
+    await this.initSchema();
+
+    const pipeline = this.getPipelineRow(name);
+    if (!pipeline) {
+      return { name, stages: [], error: `Pipeline '${name}' not found` };
+    }
+
+    const contacts = this.sql
+      .exec(
+        `SELECT cs.stage, cs.entered_at, f.username, f.name, f.profile_image_url, f.note,
+                ${TAGS_COLUMN} AS tags
+         FROM contact_stages cs
+         JOIN follows f ON f.user_id = cs.user_id
+         WHERE cs.pipeline_id = ?
+         ORDER BY cs.entered_at`,
+        pipeline.id
+      )
+      .toArray();
+
+    const now = Date.now();
+    const stages = this.getPipelineStages(pipeline.id).map((stage) => ({
+      name: stage,
+      contacts: contacts
+        .filter((contact) => contact.stage === stage)
+        .map((contact) => ({
+          username: contact.username as string,
+          name: contact.name as string,
+          profile_image_url: contact.profile_image_url as string,
+          tags: contact.tags as string,
+          note: contact.note as string,
+          entered_at: contact.entered_at as string,
+          days_in_stage: Math.floor(
+            (now - new Date(contact.entered_at as string).getTime()) /
+              (24 * 60 * 60 * 1000)
+          ),
+        })),
+    }));
+
+    const history: Pipeline["history"] = includeHistory
+      ? this.sql
+          .exec(
+            `SELECT f.username, h.from_stage, h.to_stage, h.changed_at
+             FROM stage_history h
+             JOIN follows f ON f.user_id = h.user_id
+             WHERE h.pipeline_id = ?
+             ORDER BY h.id DESC
+             LIMIT 200`,
+            pipeline.id
+          )
+          .toArray()
+          .map((row) => ({
+            username: row.username as string,
+            from: row.from_stage as string | null,
+            to: row.to_stage as string | null,
+            changed_at: row.changed_at as string,
+          }))
+      : undefined;
+
+    return { name: pipeline.name, stages, history };
+  }
+
+  // Replaces the open follow-up of a contact, an empty due date clears it
+  setFollowUp(userId: string, dueAt: string | null, reason?: string) {
+    this.sql.exec(
+      `DELETE FROM follow_ups WHERE user_id = ? AND status != 'done'`,
+      userId
+    );
+
+    if (!dueAt) return;
+
+    const due = toFollowUpDueAt(dueAt);
+    this.sql.exec(
+      `INSERT INTO follow_ups (user_id, due_at, reason, status) VALUES (?, ?, ?, ?)`,
+      userId,
+      due,
+      reason || null,
+      new Date(due).getTime() <= Date.now() ? "overdue" : "pending"
+    );
+  }
+
+  // Flags follow-ups that became due and emits followup.due for each, returns how many
+  markOverdueFollowUps() {
+    const due = this.sql
+      .exec(
+        `UPDATE follow_ups SET status = 'overdue' WHERE status = 'pending' AND due_at <= ?
+         RETURNING user_id, due_at, reason`,
+        new Date().toISOString()
+      )
+      .toArray();
+
+    for (const followUp of due) {
+      const contact = this.sql
+        .exec(
+          `SELECT username, name FROM follows WHERE user_id = ?`,
+          followUp.user_id
+        )
+        .toArray()[0];
+      this.emitEvent("followup.due", {
+        user_id: followUp.user_id,
+        username: contact?.username ?? null,
+        name: contact?.name ?? null,
+        due_at: followUp.due_at,
+        reason: followUp.reason,
+      });
+    }
+    return due.length;
+  }
+
+  // Open follow-ups that are overdue or due within the given number of days
+  async getDueFollowUps(withinDays = 0) {
+    await this.initSchema();
+    if (this.markOverdueFollowUps() > 0) await this.scheduleAlarm();
+
+    const endOfDay = new Date();
+    endOfDay.setUTCHours(23, 59, 59, 999);
+    endOfDay.setUTCDate(endOfDay.getUTCDate() + withinDays);
+
+    return this.sql
+      .exec(
+        `SELECT fu.id, f.username, f.name, f.profile_image_url, fu.due_at, fu.reason, fu.status, fu.created_at
+         FROM follow_ups fu
+         JOIN follows f ON f.user_id = fu.user_id
+         WHERE fu.status != 'done' AND fu.due_at <= ?
+         ORDER BY fu.due_at ASC`,
+        endOfDay.toISOString()
+      )
+      .toArray();
+  }
+
+  async completeFollowUp(username: string) {
+    await this.initSchema();
+
+    const contact = await this.resolveUsername(username);
+    if (!contact) {
+      return { completed: false, error: `Username '${username}' not found` };
+    }
+
+    const result = this.sql.exec(
+      `UPDATE follow_ups SET status = 'done', completed_at = CURRENT_TIMESTAMP
+       WHERE user_id = ? AND status != 'done'`,
+      contact.user_id
+    );
+    await this.scheduleAlarm();
+
+    if (result.rowsWritten === 0) {
+      return {
+        completed: false,
+        username: contact.username,
+        error: "No open follow-up",
+      };
+    }
+
+    return { completed: true, username: contact.username };
+  }
+
+  async addInteraction(
+    username: string,
+    type: string,
+    text?: string,
+    link?: string,
+    occurredAt?: string
+  ) {
+    await this.initSchema();
+
+    const contact = await this.resolveUsername(username);
+    if (!contact) {
+      return { added: false, error: `Username '${username}' not found` };
+    }
+
+    const interaction = this.sql
+      .exec(
+        `INSERT INTO interactions (user_id, type, text, link, occurred_at)
+         VALUES (?, ?, ?, ?, ?)
+         RETURNING id, type, text, link, occurred_at, created_at`,
+        contact.user_id,
+        type,
+        text || null,
+        link || null,
+        occurredAt || new Date().toISOString()
+      )
+      .one();
+
+    return { added: true, username: contact.username, interaction };
+  }
+
+  async getInteractions(username: string) {
+    await this.initSchema();
+
+    const contact = await this.resolveUsername(username);
+    if (!contact) return null;
+
+    const interactions = this.sql
+      .exec(
+        `SELECT id, type, text, link, occurred_at, created_at FROM interactions
+         WHERE user_id = ? ORDER BY occurred_at DESC, id DESC`,
+        contact.user_id
+      )
+      .toArray();
+
+    return { username: contact.username, interactions };
+  }
+
+  // Replaces all tags of a contact
+  setContactTags(userId: string, tags: string[]) {
+    this.sql.exec(`DELETE FROM contact_tags WHERE user_id = ?`, userId);
+    this.addContactTags(userId, tags);
+    this.pruneTags();
+  }
+
+  addContactTags(userId: string, tags: string[]) {
+    for (const tag of tags) {
+      const tagId = this.getOrCreateTagId(tag);
+      this.sql.exec(
+        `INSERT OR IGNORE INTO contact_tags (user_id, tag_id) VALUES (?, ?)`,
+        userId,
+        tagId
+      );
+    }
+  }
+
+  getOrCreateTagId(tag: string): number {
+    this.sql.exec(`INSERT OR IGNORE INTO tags (name) VALUES (?)`, tag);
+    return this.sql.exec(`SELECT id FROM tags WHERE name = ?`, tag).one()
+      .id as number;
+  }
+
+  getTagId(tag: string): number | null {
+    const rows = this.sql
+      .exec(`SELECT id FROM tags WHERE name = ?`, tag.trim())
+      .toArray();
+    return rows.length > 0 ? (rows[0].id as number) : null;
+  }
+
+  getTagName(tagId: number) {
+    return this.sql.exec(`SELECT name FROM tags WHERE id = ?`, tagId).one()
+      .name as string;
+  }
+
+  // Deletes tags that are no longer used by any contact
+  pruneTags() {
+    this.sql.exec(
+      `DELETE FROM tags WHERE id NOT IN (SELECT tag_id FROM contact_tags)`
+    );
+  }
+
+  // Moves all contacts from one tag to another and deletes the source tag
+  moveTag(fromId: number, toId: number): number {
+    const { count } = this.sql
+      .exec(
+        `SELECT COUNT(*) AS count FROM contact_tags WHERE tag_id = ?`,
+        fromId
+      )
+      .one();
+    this.sql.exec(
+      `INSERT OR IGNORE INTO contact_tags (user_id, tag_id)
+       SELECT user_id, ? FROM contact_tags WHERE tag_id = ?`,
+      toId,
+      fromId
+    );
+    this.sql.exec(`DELETE FROM contact_tags WHERE tag_id = ?`, fromId);
+    this.sql.exec(`DELETE FROM tags WHERE id = ?`, fromId);
+    return count as number;
+  }
+
+  async removeTag(tagToRemove: string, source = "web") {
+    await this.initSchema();
+
+    const tagId = this.getTagId(tagToRemove);
+    if (tagId === null) {
+      return { removed: 0, tag: tagToRemove };
+    }
+
+    const batch = this.newBatch("removeTag", source);
+    let removed = 0;
+    this.trackChanges(this.getTaggedUserIds([tagId]), batch, () => {
+      removed = this.sql.exec(
+        `DELETE FROM contact_tags WHERE tag_id = ?`,
+        tagId
+      ).rowsWritten;
+      this.pruneTags();
+    });
+    await this.scheduleAlarm();
+
+    return {
+      removed,
+      tag: tagToRemove,
+      batch_id: batch.id,
+    };
+  }
+
+  // Renames a tag. Renaming onto an existing tag merges the two.
+  async renameTag(from: string, to: string, source = "web") {
+    await this.initSchema();
+
+    const [newName] = parseTags(to);
+    if (!newName) {
+      return { renamed: 0, error: "New tag name required" };
+    }
+
+    const fromId = this.getTagId(from);
+    if (fromId === null) {
+      return { renamed: 0, error: `Tag '${from}' not found` };
+    }
+
+    const batch = this.newBatch("renameTag", source);
+    const userIds = this.getTaggedUserIds([fromId]);
+    const toId = this.getTagId(newName);
+    if (toId === null || toId === fromId) {
+      // Also covers changing only the casing of a tag
+      this.trackChanges(userIds, batch, () => {
+        this.sql.exec(`UPDATE tags SET name = ? WHERE id = ?`, newName, fromId);
+        this.retargetTag([from], newName);
+      });
+      await this.scheduleAlarm();
+      return {
+        renamed: userIds.length,
+        from,
+        to: newName,
+        merged: false,
+        batch_id: batch.id,
+      };
+    }
+
+    let count = 0;
+    this.trackChanges(userIds, batch, () => {
+      count = this.moveTag(fromId, toId);
+      this.retargetTag([from], this.getTagName(toId));
+    });
+    await this.scheduleAlarm();
+    return { renamed: count, from, to: newName, merged: true, batch_id: batch.id };
+  }
+
+  // Points what refers to a tag by name, X List mappings and tweet opt-ins,
+  // at its new name after a rename or merge
+  retargetTag(from: string[], to: string) {
+    for (const name of from) {
+      this.sql.exec(
+        `UPDATE x_lists SET tag = ? WHERE tag = ? COLLATE NOCASE`,
+        to,
+        name
+      );
+
+      if (name.toLowerCase() === to.toLowerCase()) {
+        this.sql.exec(`UPDATE tweet_tags SET tag = ? WHERE tag = ?`, to, name);
+      } else {
+        // Merging an opted-in tag into one that already is keeps a single row
+        this.sql.exec(
+          `INSERT OR IGNORE INTO tweet_tags (tag, enabled_at)
+           SELECT ?, enabled_at FROM tweet_tags WHERE tag = ?`,
+          to,
+          name
+        );
+        this.sql.exec(`DELETE FROM tweet_tags WHERE tag = ?`, name);
+      }
+    }
+  }
+
+  // Merges several tags into one, which is created if it doesn't exist yet
+  async mergeTags(tags: string[], into: string, source = "web") {
+    await this.initSchema();
+
+    const [target] = parseTags(into);
+    if (!target) {
+      return { merged: 0, error: "Target tag required" };
+    }
+
+    const batch = this.newBatch("mergeTags", source);
+    const targetId = this.getOrCreateTagId(target);
+    const notFound = tags.filter((tag) => this.getTagId(tag) === null);
+    const tagIds = tags
+      .map((tag) => this.getTagId(tag))
+      .filter((tagId) => tagId !== null && tagId !== targetId);
+    let merged = 0;
+
+    this.trackChanges(this.getTaggedUserIds(tagIds), batch, () => {
+      for (const tagId of new Set(tagIds)) {
+        merged += this.moveTag(tagId, targetId);
+      }
+      this.retargetTag(tags, this.getTagName(targetId));
+      this.pruneTags();
+    });
+    await this.scheduleAlarm();
+
+    return { merged, into: target, notFound, batch_id: batch.id };
+  }
+
+  // Fetches all members of an X List, following the cursor up to MAX_LIST_PAGES
+  async fetchListMembers(
+    listId: string
+  ): Promise<Array<{ user_id: string; username: string }>> {
+    const members = new Map<string, string>();
+    let cursor: string | null = null;
+
+    for (let page = 0; page < MAX_LIST_PAGES; page++) {
+      const data = await this.provider.getListMembers(listId, cursor);
+      for (const user of data.users) {
+        members.set(String(user.id), user.userName);
+      }
+
+      if (!data.has_next_page || !data.next_cursor) break;
+      cursor = data.next_cursor;
+    }
+
+    return [...members].map(([user_id, username]) => ({ user_id, username }));
+  }
+
+  // Fetches the Lists a user owns or follows, following the cursor up to MAX_LIST_PAGES
+  async fetchOwnedLists(
+    username: string
+  ): Promise<Array<{ list_id: string; name: string }>> {
+    const lists = new Map<string, string>();
+    let cursor: string | null = null;
+
+    for (let page = 0; page < MAX_LIST_PAGES; page++) {
+      const data = await this.provider.getOwnedLists(username, cursor);
+      for (const list of data.lists) {
+        lists.set(String(list.id), list.name || String(list.id));
+      }
+
+      if (!data.has_next_page || !data.next_cursor) break;
+      cursor = data.next_cursor;
+    }
+
+    return [...lists].map(([list_id, name]) => ({ list_id, name }));
+  }
+
+  // Maps every List the user owns or follows onto a `list:<name>` tag and
+  // imports its members. Lists mapped before keep their tag.
+  async importXLists(username: string, source = "web") {
+    await this.initSchema();
+
+    const imported: Array<{
+      list_id: string;
+      name: string;
+      tag: string;
+      members: number;
+      tagged: number;
+    }> = [];
+    const skipped: Array<{ list_id: string; name: string; error: string }> = [];
+
+    for (const list of await this.fetchOwnedLists(username)) {
+      if (!this.getXListRow(list.list_id)) {
+        const added = await this.addXList(list.list_id, list.name);
+        if (added.error) {
+          skipped.push({ ...list, error: added.error });
+          continue;
+        }
+      }
+
+      const result = await this.syncXList(list.list_id, "import", source);
+      if (result.error) {
+        skipped.push({ ...list, error: result.error });
+        continue;
+      }
+      imported.push({
+        ...list,
+        tag: result.tag,
+        members: result.members,
+        tagged: result.tagged,
+      });
+    }
+
+    return { imported, skipped };
+  }
+
+  getXListRow(listId: string) {
+    return this.sql
+      .exec(`SELECT list_id, name, tag, synced_at FROM x_lists WHERE list_id = ?`, listId)
+      .toArray()[0];
+  }
+
+  // Maps an X List onto a tag, `list:<name>` unless another tag is given
+  async addXList(listId: string, name: string, tag?: string) {
+    await this.initSchema();
+
+    const [listTag] = parseTags(tag || `list:${name}`);
+    const taken = this.sql
+      .exec(
+        `SELECT list_id FROM x_lists WHERE tag = ? COLLATE NOCASE AND list_id != ?`,
+        listTag,
+        listId
+      )
+      .toArray()[0];
+    if (taken) {
+      return {
+        error: `Tag '${listTag}' is already mapped to list ${taken.list_id}`,
+      };
+    }
+
+    this.sql.exec(
+      `INSERT INTO x_lists (list_id, name, tag) VALUES (?, ?, ?)
+       ON CONFLICT(list_id) DO UPDATE SET name = excluded.name, tag = excluded.tag`,
+      listId,
+      name,
+      listTag
+    );
+
+    return { list_id: listId, name, tag: listTag };
+  }
+
+  // Stops syncing a List. The tag and its contacts are kept.
+  async removeXList(listId: string) {
+    await this.initSchema();
+    this.sql.exec(`DELETE FROM x_list_members WHERE list_id = ?`, listId);
+    const result = this.sql.exec(`DELETE FROM x_lists WHERE list_id = ?`, listId);
+    return { removed: result.rowsWritten > 0, list_id: listId };
+  }
+
+  // Fetches the members of a List and tags the ones that are in the CRM.
+  // mode=mirror also untags contacts that are no longer on the List.
+  async syncXList(listId: string, mode = "import", source = "web") {
+    await this.initSchema();
+
+    const list = this.getXListRow(listId);
+    if (!list) {
+      return { error: `List ${listId} is not registered, add it with addXList` };
+    }
+
+    const members = await this.fetchListMembers(listId);
+
+    this.sql.exec(`DELETE FROM x_list_members WHERE list_id = ?`, listId);
+    for (const member of members) {
+      this.sql.exec(
+        `INSERT INTO x_list_members (list_id, user_id, username) VALUES (?, ?, ?)`,
+        listId,
+        member.user_id,
+        member.username
+      );
+    }
+    this.sql.exec(
+      `UPDATE x_lists SET synced_at = CURRENT_TIMESTAMP WHERE list_id = ?`,
+      listId
+    );
+
+    const drift = this.computeXListDrift(listId, list.tag as string);
+    const batch = this.newBatch("syncXList", source);
+    const toTag = drift.only_on_list.map((contact) => contact.user_id);
+    const toUntag =
+      mode === "mirror" ? drift.only_in_tag.map((contact) => contact.user_id) : [];
+
+    this.trackChanges([...toTag, ...toUntag], batch, () => {
+      for (const userId of toTag) {
+        this.addContactTags(userId, [list.tag as string]);
+      }
+      const tagId = this.getTagId(list.tag as string);
+      for (const userId of toUntag) {
+        this.sql.exec(
+          `DELETE FROM contact_tags WHERE user_id = ? AND tag_id = ?`,
+          userId,
+          tagId
+        );
+      }
+      this.pruneTags();
+    });
+    await this.scheduleAlarm();
+
+    return {
+      list_id: listId,
+      tag: list.tag as string,
+      members: members.length,
+      tagged: toTag.length,
+      untagged: toUntag.length,
+      batch_id: batch.id,
+      drift: this.computeXListDrift(listId, list.tag as string),
+    };
+  }
+
+  // Compares the members of a List (as of its last sync) with its tag
+  computeXListDrift(listId: string, tag: string) {
+    const onList = this.sql
+      .exec(
+        `SELECT m.user_id, f.username FROM x_list_members m
+         JOIN follows f ON f.user_id = m.user_id
+         WHERE m.list_id = ? AND m.user_id NOT IN (
+           SELECT ct.user_id FROM contact_tags ct JOIN tags t ON t.id = ct.tag_id WHERE t.name = ?
+         )`,
+        listId,
+        tag
+      )
+      .toArray();
+    const inTag = this.sql
+      .exec(
+        `SELECT f.user_id, f.username FROM contact_tags ct
+         JOIN tags t ON t.id = ct.tag_id
+         JOIN follows f ON f.user_id = ct.user_id
+         WHERE t.name = ? AND ct.user_id NOT IN (
+           SELECT user_id FROM x_list_members WHERE list_id = ?
+         )`,
+        tag,
+        listId
+      )
+      .toArray();
+    const notInCrm = this.sql
+      .exec(
+        `SELECT username FROM x_list_members
+         WHERE list_id = ? AND user_id NOT IN (SELECT user_id FROM follows)`,
+        listId
+      )
+      .toArray();
+
+    const toContact = (row: Record<string, SqlStorageValue>) => ({
+      user_id: row.user_id as string,
+      username: row.username as string,
+    });
+    return {
+      // On the List, in the CRM, but without the tag
+      only_on_list: onList.map(toContact),
+      // Tagged in the CRM but not on the List, mode=mirror untags them
+      only_in_tag: inTag.map(toContact),
+      // On the List but not a following or follower
+      not_in_crm: notInCrm.map((row) => row.username as string),
+    };
+  }
+
+  async getXListDrift(listId: string) {
+    await this.initSchema();
+
+    const list = this.getXListRow(listId);
+    if (!list) {
+      return { error: `List ${listId} is not registered, add it with addXList` };
+    }
+
+    return {
+      list_id: listId,
+      name: list.name as string,
+      tag: list.tag as string,
+      synced_at: list.synced_at as string | null,
+      ...this.computeXListDrift(listId, list.tag as string),
+    };
+  }
+
+  async listXLists() {
+    await this.initSchema();
+
+    return this.sql
+      .exec(
+        `SELECT l.list_id, l.name, l.tag, l.synced_at,
+                (SELECT COUNT(*) FROM x_list_members m WHERE m.list_id = l.list_id) AS members
+         FROM x_lists l ORDER BY l.name COLLATE NOCASE`
+      )
+      .toArray()
+      .map((row) => {
+        const drift = this.computeXListDrift(row.list_id as string, row.tag as string);
+        return {
+          list_id: row.list_id as string,
+          name: row.name as string,
+          tag: row.tag as string,
+          members: row.members as number,
+          synced_at: row.synced_at as string | null,
+          drift: {
+            only_on_list: drift.only_on_list.length,
+            only_in_tag: drift.only_in_tag.length,
+            not_in_crm: drift.not_in_crm.length,
+          },
+        };
+      });
+  }
+
+  // Registered webhooks with their delivery counts, secrets left out
+  async listWebhooks() {
+    await this.initSchema();
+
+    return this.sql
+      .exec(
+        `SELECT w.id, w.url, w.events, w.created_at,
+                SUM(d.status = 'delivered') AS delivered,
+                SUM(d.status = 'pending') AS pending,
+                SUM(d.status = 'failed') AS failed
+         FROM webhooks w LEFT JOIN webhook_deliveries d ON d.webhook_id = w.id
+         GROUP BY w.id ORDER BY w.id`
+      )
+      .toArray()
+      .map((row) => ({
+        id: row.id as number,
+        url: row.url as string,
+        events: (row.events as string).split(","),
+        created_at: row.created_at as string,
+        delivered: (row.delivered as number) || 0,
+        pending: (row.pending as number) || 0,
+        failed: (row.failed as number) || 0,
+      }));
+  }
+
+  // Registers an endpoint for the given events. The signing secret is generated
+  // here and only returned now, so it never travels in a URL
+  async createWebhook(url: string, events: string[]) {
+    await this.initSchema();
+
+    const webhookSecret = crypto.randomUUID().replace(/-/g, "");
+    const { id } = this.sql
+      .exec(
+        `INSERT INTO webhooks (url, secret, events) VALUES (?, ?, ?) RETURNING id`,
+        url,
+        webhookSecret,
+        events.join(",")
+      )
+      .one();
+
+    return { id: id as number, url, events, secret: webhookSecret };
+  }
+
+  async deleteWebhook(id: number) {
+    await this.initSchema();
+
+    const deleted = this.sql.exec(`DELETE FROM webhooks WHERE id = ?`, id)
+      .rowsWritten;
+    if (deleted === 0) {
+      return { deleted: false, error: `Webhook ${id} not found` };
+    }
+    this.sql.exec(
+      `DELETE FROM webhook_deliveries WHERE webhook_id = ? AND status = 'pending'`,
+      id
+    );
+    await this.scheduleAlarm();
+
+    return { deleted: true, id };
+  }
+
+  // Queues a delivery of the event to every webhook subscribed to it. Callers
+  // schedule the alarm, which sends them.
+  emitEvent(event: string, data: Record<string, unknown>) {
+    const webhooks = this.sql
+      .exec(`SELECT id, events FROM webhooks`)
+      .toArray()
+      .filter((webhook) => (webhook.events as string).split(",").includes(event));
+    if (webhooks.length === 0) return;
+
+    const payload = JSON.stringify({
+      id: crypto.randomUUID(),
+      event,
+      created_at: new Date().toISOString(),
+      data,
+    });
+    for (const webhook of webhooks) {
+      this.sql.exec(
+        `INSERT INTO webhook_deliveries (webhook_id, event, payload, next_attempt_at)
+         VALUES (?, ?, ?, ?)`,
+        webhook.id,
+        event,
+        payload,
+        new Date().toISOString()
+      );
+    }
+  }
+
+  // Sends the deliveries that are due. Anything but a 2xx response is retried
+  // with backoff until WEBHOOK_MAX_ATTEMPTS.
+  async deliverWebhooks() {
+    const due = this.sql
+      .exec(
+        `SELECT d.id, d.event, d.payload, d.attempts, w.url, w.secret
+         FROM webhook_deliveries d JOIN webhooks w ON w.id = d.webhook_id
+         WHERE d.status = 'pending' AND d.next_attempt_at <= ?
+         ORDER BY d.next_attempt_at
+         LIMIT ?`,
+        new Date().toISOString(),
+        WEBHOOK_BATCH
+      )
+      .toArray();
+
+    for (const delivery of due) {
+      const attempts = (delivery.attempts as number) + 1;
+      let responseStatus: number | null = null;
+      let error: string | null = null;
+
+      try {
+        const body = delivery.payload as string;
+        const response = await fetch(delivery.url as string, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "User-Agent": "X-CRM-Webhooks",
+            "X-CRM-Event": delivery.event as string,
+            "X-CRM-Delivery": String(delivery.id),
+            "X-CRM-Signature": `sha256=${await signPayload(
+              delivery.secret as string,
+              body
+            )}`,
+          },
+          body,
+          signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+        });
+        responseStatus = response.status;
+        if (!response.ok) error = `HTTP ${response.status}`;
+      } catch (e) {
+        error = e.message;
+      }
+
+      if (!error) {
+        this.sql.exec(
+          `UPDATE webhook_deliveries SET status = 'delivered', attempts = ?, response_status = ?, error = NULL, next_attempt_at = NULL, delivered_at = ? WHERE id = ?`,
+          attempts,
+          responseStatus,
+          new Date().toISOString(),
+          delivery.id
+        );
+      } else if (attempts < WEBHOOK_MAX_ATTEMPTS) {
+        const delay = Math.min(
+          WEBHOOK_BACKOFF_BASE_MS * 2 ** (attempts - 1),
+          WEBHOOK_BACKOFF_MAX_MS
+        );
+        this.sql.exec(
+          `UPDATE webhook_deliveries SET attempts = ?, response_status = ?, error = ?, next_attempt_at = ? WHERE id = ?`,
+          attempts,
+          responseStatus,
+          error,
+          new Date(Date.now() + delay).toISOString(),
+          delivery.id
+        );
+      } else {
+        this.sql.exec(
+          `UPDATE webhook_deliveries SET status = 'failed', attempts = ?, response_status = ?, error = ?, next_attempt_at = NULL WHERE id = ?`,
+          attempts,
+          responseStatus,
+          error,
+          delivery.id
+        );
+      }
+    }
+
+    this.sql.exec(
+      `DELETE FROM webhook_deliveries WHERE status != 'pending' AND id NOT IN (
+         SELECT id FROM webhook_deliveries ORDER BY id DESC LIMIT ?
+       )`,
+      WEBHOOK_LOG_SIZE
+    );
+  }
+
+  // Most recent deliveries first, optionally of one webhook
+  async getWebhookDeliveries(limit = 50, webhookId?: number) {
+    await this.initSchema();
+
+    return this.sql
+      .exec(
+        `SELECT d.id, d.webhook_id, w.url, d.event, d.status, d.attempts, d.response_status,
+                d.error, d.created_at, d.delivered_at, d.next_attempt_at
+         FROM webhook_deliveries d LEFT JOIN webhooks w ON w.id = d.webhook_id
+         ${webhookId ? "WHERE d.webhook_id = ?" : ""}
+         ORDER BY d.id DESC
+         LIMIT ?`,
+        ...(webhookId ? [webhookId, limit] : [limit])
+      )
+      .toArray()
+      .map((row) => ({
+        id: row.id as number,
+        webhook_id: row.webhook_id as number,
+        url: row.url as string | null,
+        event: row.event as string,
+        status: row.status as string,
+        attempts: row.attempts as number,
+        response_status: row.response_status as number | null,
+        error: row.error as string | null,
+        created_at: row.created_at as string,
+        delivered_at: row.delivered_at as string | null,
+        next_attempt_at: row.next_attempt_at as string | null,
+      }));
+  }
+
+  // Workspaces the user created or joined
+  async listWorkspaces() {
+    await this.initSchema();
+
+    return this.sql
+      .exec(
+        `SELECT id, name, role, joined_at FROM workspaces ORDER BY name COLLATE NOCASE`
+      )
+      .toArray()
+      .map((row) => ({
+        id: row.id as string,
+        name: row.name as string,
+        role: row.role as string,
+        joined_at: row.joined_at as string,
+      }));
+  }
+
+  async addWorkspace(id: string, name: string, role: string) {
+    await this.initSchema();
+    this.sql.exec(
+      `INSERT INTO workspaces (id, name, role) VALUES (?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET name = excluded.name, role = excluded.role`,
+      id,
+      name,
+      role
+    );
+  }
+
+  async removeWorkspace(id: string) {
+    await this.initSchema();
+    this.sql.exec(`DELETE FROM workspaces WHERE id = ?`, id);
+  }
+
+  // Tags whose contacts get their tweets fetched
+  async listTweetTags() {
+    await this.initSchema();
+
+    return this.sql
+      .exec(
+        `SELECT tt.tag, tt.enabled_at,
+                COUNT(DISTINCT f.user_id) AS contacts,
+                (SELECT COUNT(*) FROM tweets tw WHERE tw.user_id IN (
+                   SELECT ct2.user_id FROM contact_tags ct2 WHERE ct2.tag_id = t.id
+                 )) AS tweets,
+                MAX(tf.fetched_at) AS fetched_at
+         FROM tweet_tags tt
+         LEFT JOIN tags t ON t.name = tt.tag
+         LEFT JOIN contact_tags ct ON ct.tag_id = t.id
+         LEFT JOIN follows f ON f.user_id = ct.user_id AND f.archived_at IS NULL
+         LEFT JOIN tweet_fetches tf ON tf.user_id = f.user_id
+         GROUP BY tt.tag
+         ORDER BY tt.tag COLLATE NOCASE`
+      )
+      .toArray()
+      .map((row) => ({
+        tag: row.tag as string,
+        enabled_at: row.enabled_at as string,
+        contacts: row.contacts as number,
+        tweets: row.tweets as number,
+        fetched_at: row.fetched_at as string | null,
+      }));
+  }
+
+  async enableTweets(tag: string) {
+    await this.initSchema();
+
+    const existing = this.sql
+      .exec(`SELECT name FROM tags WHERE name = ?`, tag.trim())
+      .toArray();
+    if (existing.length === 0) {
+      return { enabled: false, error: `Tag '${tag}' not found` };
+    }
+
+    this.sql.exec(
+      `INSERT OR IGNORE INTO tweet_tags (tag) VALUES (?)`,
+      existing[0].name
+    );
+    await this.scheduleAlarm();
+
+    const { contacts } = this.sql
+      .exec(
+        `SELECT COUNT(DISTINCT user_id) AS contacts FROM (${TWEET_TRACKED_CONTACTS} AND t.name = ?)`,
+        existing[0].name
+      )
+      .one();
+
+    return { enabled: true, tag: existing[0].name as string, contacts };
+  }
+
+  // Stops fetching for the tag, tweets of contacts no longer tracked are dropped
+  async disableTweets(tag: string) {
+    await this.initSchema();
+
+    const removed = this.sql.exec(
+      `DELETE FROM tweet_tags WHERE tag = ?`,
+      tag.trim()
+    ).rowsWritten;
+    if (removed === 0) {
+      return { disabled: false, error: `Tweets are not fetched for '${tag}'` };
+    }
+
+    const deleted = this.pruneTweets();
+    await this.scheduleAlarm();
+
+    return { disabled: true, tag, deleted };
+  }
+
+  fromProviderTweet(tweet: any, username: string): Tweet {
+    return {
+      id: String(tweet.id),
+      username,
+      text: tweet.text || "",
+      url: tweet.url || `https://x.com/${username}/status/${tweet.id}`,
+      created_at: toIsoDate(tweet.createdAt) || new Date().toISOString(),
+      like_count: tweet.likeCount || 0,
+      retweet_count: tweet.retweetCount || 0,
+      reply_count: tweet.replyCount || 0,
+      view_count: tweet.viewCount || 0,
+      is_reply: Boolean(tweet.isReply),
+    };
+  }
+
+  // Fetches the latest page of tweets of a contact, replies included
+  async fetchTweets(userId: string, username: string) {
+    const tweets = (await this.provider.getTweets(userId)).map((tweet) =>
+      this.fromProviderTweet(tweet, username)
+    );
+    for (const tweet of tweets) {
+      this.sql.exec(
+        `INSERT INTO tweets (id, user_id, text, url, created_at, like_count, retweet_count, reply_count, view_count, is_reply)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+           like_count = excluded.like_count,
+           retweet_count = excluded.retweet_count,
+           reply_count = excluded.reply_count,
+           view_count = excluded.view_count`,
+        tweet.id,
+        userId,
+        tweet.text,
+        tweet.url,
+        tweet.created_at,
+        tweet.like_count,
+        tweet.retweet_count,
+        tweet.reply_count,
+        tweet.view_count,
+        tweet.is_reply ? 1 : 0
+      );
+    }
+
+    this.sql.exec(
+      `INSERT INTO tweet_fetches (user_id, fetched_at, error) VALUES (?, ?, NULL)
+       ON CONFLICT (user_id) DO UPDATE SET fetched_at = excluded.fetched_at, error = NULL`,
+      userId,
+      new Date().toISOString()
+    );
+
+    return tweets.length;
+  }
+
+  // When the next tracked contact is due for a refresh, in ms, or null if none is tracked
+  nextTweetFetchAt(): number | null {
+    const { fetched_at, tracked } = this.sql
+      .exec(
+        `SELECT MIN(COALESCE(tf.fetched_at, '')) AS fetched_at, COUNT(*) AS tracked
+         FROM (${TWEET_TRACKED_CONTACTS}) c
+         LEFT JOIN tweet_fetches tf ON tf.user_id = c.user_id`
+      )
+      .one();
+    if (tracked === 0) return null;
+    if (!fetched_at) return Date.now();
+    return (
+      new Date(fetched_at as string).getTime() +
+      TWEET_REFRESH_HOURS * 60 * 60 * 1000
+    );
+  }
+
+  // Refreshes the tweets of the contacts that were fetched longest ago
+  async runTweetFetchStep() {
+    const due = this.sql
+      .exec(
+        `SELECT DISTINCT c.user_id, f.username
+         FROM (${TWEET_TRACKED_CONTACTS}) c
+         JOIN follows f ON f.user_id = c.user_id
+         LEFT JOIN tweet_fetches tf ON tf.user_id = c.user_id
+         WHERE tf.fetched_at IS NULL OR tf.fetched_at <= ?
+         ORDER BY COALESCE(tf.fetched_at, '')
+         LIMIT ?`,
+        new Date(Date.now() - TWEET_REFRESH_HOURS * 60 * 60 * 1000).toISOString(),
+        TWEET_FETCH_BATCH
+      )
+      .toArray();
+
+    for (const row of due) {
+      try {
+        await this.fetchTweets(row.user_id as string, row.username as string);
+      } catch (error) {
+        // Recorded as fetched so a failing account waits for the next refresh
+        this.sql.exec(
+          `INSERT INTO tweet_fetches (user_id, fetched_at, error) VALUES (?, ?, ?)
+           ON CONFLICT (user_id) DO UPDATE SET fetched_at = excluded.fetched_at, error = excluded.error`,
+          row.user_id,
+          new Date().toISOString(),
+          error.message
+        );
+      }
+    }
+
+    this.pruneTweets();
+  }
+
+  // Applies the retention limits and drops tweets of contacts no longer tracked
+  pruneTweets() {
+    let deleted = this.sql.exec(
+      `DELETE FROM tweets WHERE created_at < ? OR user_id NOT IN (${TWEET_TRACKED_CONTACTS})`,
+      new Date(Date.now() - TWEET_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString()
+    ).rowsWritten;
+    deleted += this.sql.exec(
+      `DELETE FROM tweets WHERE id IN (
+         SELECT id FROM (
+           SELECT id, ROW_NUMBER() OVER (PARTITION BY user_id ORDER BY created_at DESC) AS position
+           FROM tweets
+         ) WHERE position > ?
+       )`,
+      MAX_TWEETS_PER_CONTACT
+    ).rowsWritten;
+    this.sql.exec(
+      `DELETE FROM tweet_fetches WHERE user_id NOT IN (${TWEET_TRACKED_CONTACTS})`
+    );
+    return deleted;
+  }
+
+  toTweet(row: Record<string, SqlStorageValue>): Tweet {
+    return {
+      id: row.id as string,
+      username: row.username as string,
+      text: row.text as string,
+      url: row.url as string | null,
+      created_at: row.created_at as string,
+      like_count: row.like_count as number,
+      retweet_count: row.retweet_count as number,
+      reply_count: row.reply_count as number,
+      view_count: row.view_count as number,
+      is_reply: Boolean(row.is_reply),
+    };
+  }
+
+  async searchTweets(
+    q: string,
+    options: { since?: string; username?: string; tag?: string; limit?: number } = {}
+  ): Promise<Array<Tweet & { snippet: string }>> {
+    await this.initSchema();
+
+    const match = toFtsQuery(q);
+    if (!match) return [];
+
+    const conditions = [`tweets_fts MATCH ?`];
+    const params: SqlStorageValue[] = [match];
+    if (options.since) {
+      conditions.push(`tw.created_at >= ?`);
+      params.push(options.since);
+    }
+    if (options.username) {
+      conditions.push(`f.username = ? COLLATE NOCASE`);
+      params.push(options.username.replace(/^@/, ""));
+    }
+    if (options.tag) {
+      conditions.push(
+        `tw.user_id IN (SELECT ct.user_id FROM contact_tags ct JOIN tags t ON t.id = ct.tag_id WHERE t.name = ?)`
+      );
+      params.push(options.tag.trim());
+    }
+    params.push(options.limit || 20);
+
+    return this.sql
+      .exec(
+        `SELECT tw.*, f.username,
+                snippet(tweets_fts, 0, '**', '**', '…', 24) AS snippet
+         FROM tweets_fts
+         JOIN tweets tw ON tw.rowid = tweets_fts.rowid
+         JOIN follows f ON f.user_id = tw.user_id
+         WHERE ${conditions.join(" AND ")}
+         ORDER BY bm25(tweets_fts), tw.created_at DESC
+         LIMIT ?`,
+        ...params
+      )
+      .toArray()
+      .map((row) => ({ ...this.toTweet(row), snippet: row.snippet as string }));
+  }
+
+  // Digest of what one contact or the contacts of a tag posted since a date. A
+  // tracked contact that wasn't refreshed recently is fetched first, one that
+  // isn't tracked is fetched without storing, as pruneTweets would drop it. A
+  // tag reports what the alarm stored.
+  async getRecentActivity(options: {
+    username?: string;
+    tag?: string;
+    since?: string;
+  }): Promise<RecentActivity> {
+    await this.initSchema();
+
+    const since =
+      options.since ||
+      new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
+
+    let contacts: Record<string, SqlStorageValue>[];
+    // Tweets of an untracked contact, fetched for this digest only
+    let fetched: Tweet[] | null = null;
+    if (options.username) {
+      const contact = await this.resolveUsername(options.username);
+      if (!contact) {
+        return {
+          since,
+          contacts: [],
+          quiet: [],
+          error: `Username '${options.username}' not found`,
+        };
+      }
+      contacts = this.sql
+        .exec(
+          `SELECT f.user_id, f.username, f.name, f.source, tf.fetched_at FROM follows f
+           LEFT JOIN tweet_fetches tf ON tf.user_id = f.user_id
+           WHERE f.user_id = ?`,
+          contact.user_id
+        )
+        .toArray();
+      if (contacts[0].source === "manual") {
+        return {
+          since,
+          contacts: [],
+          quiet: [],
+          error: `@${contact.username} is a manual contact without an X account`,
+        };
+      }
+
+      const tracked = this.sql
+        .exec(
+          `SELECT 1 FROM (${TWEET_TRACKED_CONTACTS}) c WHERE c.user_id = ? LIMIT 1`,
+          contact.user_id
+        )
+        .toArray();
+      const fetchedAt = contacts[0].fetched_at as string | null;
+      if (tracked.length === 0) {
+        fetched = (await this.provider.getTweets(contact.user_id)).map(
+          (tweet) => this.fromProviderTweet(tweet, contact.username)
+        );
+        contacts[0].fetched_at = new Date().toISOString();
+      } else if (
+        !fetchedAt ||
+        Date.now() - new Date(fetchedAt).getTime() >
+          TWEET_REFRESH_HOURS * 60 * 60 * 1000
+      ) {
+        await this.fetchTweets(contact.user_id, contact.username);
+        contacts[0].fetched_at = new Date().toISOString();
+      }
+    } else {
+      const tracked = this.sql
+        .exec(`SELECT tag FROM tweet_tags WHERE tag = ?`, options.tag.trim())
+        .toArray();
+      if (tracked.length === 0) {
+        return {
+          since,
+          contacts: [],
+          quiet: [],
+          error: `Tweets are not fetched for '${options.tag}', enable them with enableTweets`,
+        };
+      }
+      contacts = this.sql
+        .exec(
+          `SELECT f.user_id, f.username, f.name, tf.fetched_at FROM follows f
+           JOIN contact_tags ct ON ct.user_id = f.user_id
+           JOIN tags t ON t.id = ct.tag_id
+           LEFT JOIN tweet_fetches tf ON tf.user_id = f.user_id
+           WHERE t.name = ? AND f.archived_at IS NULL`,
+          options.tag.trim()
+        )
+        .toArray();
+    }
+
+    const activity: RecentActivity = { since, contacts: [], quiet: [] };
+    for (const contact of contacts) {
+      const tweets = fetched
+        ? fetched
+            .filter((tweet) => tweet.created_at >= since)
+            .sort(
+              (a, b) =>
+                b.like_count + 2 * b.retweet_count + b.reply_count -
+                  (a.like_count + 2 * a.retweet_count + a.reply_count) ||
+                b.created_at.localeCompare(a.created_at)
+            )
+        : this.sql
+            .exec(
+              `SELECT tw.*, ? AS username FROM tweets tw
+               WHERE tw.user_id = ? AND tw.created_at >= ?
+               ORDER BY tw.like_count + 2 * tw.retweet_count + tw.reply_count DESC, tw.created_at DESC`,
+              contact.username,
+              contact.user_id,
+              since
+            )
+            .toArray()
+            .map((row) => this.toTweet(row));
+
+      if (tweets.length === 0) {
+        activity.quiet.push(contact.username as string);
+        continue;
+      }
+      activity.contacts.push({
+        username: contact.username as string,
+        name: contact.name as string,
+        tweet_count: tweets.length,
+        top_tweets: tweets.slice(0, 5),
+        fetched_at: contact.fetched_at as string | null,
+      });
+    }
+    activity.contacts.sort((a, b) => b.tweet_count - a.tweet_count);
+
+    return activity;
+  }
+
+  getTaggedUserIds(tagIds: number[]): string[] {
+    if (tagIds.length === 0) return [];
+    return this.sql
+      .exec(
+        `SELECT DISTINCT user_id FROM contact_tags WHERE tag_id IN (${tagIds
+          .map(() => "?")
+          .join(", ")})`,
+        ...tagIds
+      )
+      .toArray()
+      .map((row) => row.user_id as string);
+  }
+
+  newBatch(operation: string, source: string): ChangeBatch {
+    return {
+      id: crypto.randomUUID(),
+      operation,
+      source: CHANGE_SOURCES.includes(source) ? source : "web",
+    };
+  }
+
+  // Current note and tags of a contact, tags sorted so they compare as strings
+  getAuditedValues(userId: string): { note: string; tags: string } {
+    const row = this.sql
+      .exec(
+        `SELECT note, (
+           SELECT group_concat(name, ', ') FROM (
+             SELECT t.name FROM contact_tags ct JOIN tags t ON t.id = ct.tag_id
+             WHERE ct.user_id = follows.user_id ORDER BY t.name COLLATE NOCASE
+           )
+         ) AS tags
+         FROM follows WHERE user_id = ?`,
+        userId
+      )
+      .toArray()[0];
+    return {
+      note: (row?.note as string) || "",
+      tags: (row?.tags as string) || "",
+    };
+  }
+
+  // Runs a write and records how it changed the note and tags of the given contacts
+  trackChanges(userIds: string[], batch: ChangeBatch, write: () => void) {
+    const before = new Map(
+      userIds.map((userId) => [userId, this.getAuditedValues(userId)])
+    );
+
+    write();
+
+    for (const [userId, old] of before) {
+      const current = this.getAuditedValues(userId);
+      const changes: Record<string, { from: string; to: string }> = {};
+      for (const field of ["note", "tags"] as const) {
+        if (old[field] !== current[field]) {
+          changes[field] = { from: old[field], to: current[field] };
+          this.sql.exec(
+            `INSERT INTO change_log (batch_id, operation, source, user_id, field, old_value, new_value)
+             VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            batch.id,
+            batch.operation,
+            batch.source,
+            userId,
+            field,
+            old[field],
+            current[field]
+          );
+        }
+      }
+
+      if (Object.keys(changes).length > 0) {
+        const { username } = this.sql
+          .exec(`SELECT username FROM follows WHERE user_id = ?`, userId)
+          .one();
+        this.emitEvent("contact.updated", {
+          user_id: userId,
+          username,
+          operation: batch.operation,
+          source: batch.source,
+          batch_id: batch.id,
+          changes,
+        });
+      }
+    }
+  }
+
+  async getHistory(
+    username: string,
+    limit = 50
+  ): Promise<{
+    username?: string;
+    error?: string;
+    changes: Record<string, SqlStorageValue>[];
+  }> {
+    await this.initSchema();
+
+    const contact = await this.resolveUsername(username);
+    if (!contact) {
+      return { error: `Username '${username}' not found`, changes: [] };
+    }
+
+    const changes = this.sql
+      .exec(
+        `SELECT id, batch_id, operation, source, field, old_value, new_value, created_at, reverted_at
+         FROM change_log WHERE user_id = ?
+         ORDER BY id DESC
+         LIMIT ?`,
+        contact.user_id,
+        limit
+      )
+      .toArray();
+
+    return { username: contact.username, changes };
+  }
+
+  // Restores the old value of a change, unless the field was changed again since.
+  // The revert is recorded as a change itself.
+  revertChanges(
+    changes: Record<string, SqlStorageValue>[],
+    batch: ChangeBatch
+  ): RevertResult {
+    const reverted: number[] = [];
+    const conflicts: Array<{ id: number; error: string }> = [];
+
+    for (const change of changes) {
+      const userId = change.user_id as string;
+      const field = change.field as "note" | "tags";
+      const current = this.getAuditedValues(userId)[field];
+
+      if (change.reverted_at) {
+        conflicts.push({ id: change.id as number, error: "Already reverted" });
+        continue;
+      }
+      if (current !== change.new_value) {
+        conflicts.push({
+          id: change.id as number,
+          error: `The ${field} was changed again since, revert the later change first`,
+        });
+        continue;
+      }
+
+      this.trackChanges([userId], batch, () => {
+        if (field === "note") {
+          this.sql.exec(
+            `UPDATE follows SET note = ? WHERE user_id = ?`,
+            (change.old_value as string) || null,
+            userId
+          );
+        } else {
+          this.setContactTags(userId, parseTags((change.old_value as string) || ""));
+        }
+      });
+      this.sql.exec(
+        `UPDATE change_log SET reverted_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = ?`,
+        change.id
+      );
+      reverted.push(change.id as number);
+    }
+
+    return { reverted, conflicts };
+  }
+
+  async revertChange(id: number, source = "web"): Promise<RevertResult> {
+    await this.initSchema();
+
+    const change = this.sql
+      .exec(`SELECT * FROM change_log WHERE id = ?`, id)
+      .toArray()[0];
+    if (!change) {
+      return { reverted: [], conflicts: [], error: `Change ${id} not found` };
+    }
+
+    const batch = this.newBatch("revertChange", source);
+    const result = this.revertChanges([change], batch);
+    await this.scheduleAlarm();
+    return { ...result, batch_id: batch.id };
+  }
+
+  // Reverts the most recent batch that has changes left to revert. Reverts
+  // themselves are skipped, so repeated undos walk further back in time.
+  async undoLastBatch(source = "web") {
+    await this.initSchema();
+
+    const last = this.sql
+      .exec(
+        `SELECT batch_id, operation, source, created_at FROM change_log
+         WHERE reverted_at IS NULL AND operation NOT IN ('revertChange', 'undoLastBatch')
+         ORDER BY id DESC
+         LIMIT 1`
+      )
+      .toArray()[0];
+    if (!last) {
+      return { reverted: [], conflicts: [], error: "Nothing to undo" };
+    }
+
+    const changes = this.sql
+      .exec(
+        `SELECT * FROM change_log WHERE batch_id = ? AND reverted_at IS NULL ORDER BY id DESC`,
+        last.batch_id
+      )
+      .toArray();
+
+    const batch = this.newBatch("undoLastBatch", source);
+    const result = this.revertChanges(changes, batch);
+    await this.scheduleAlarm();
+    return {
+      undone: {
+        batch_id: last.batch_id,
+        operation: last.operation,
+        source: last.source,
+        created_at: last.created_at,
+      },
+      ...result,
+      batch_id: batch.id,
+    };
+  }
+
+  async getUniqueTags(): Promise<Array<{ tag: string; count: number }>> {
+    await this.initSchema();
+    const result = this.sql.exec(`
+      SELECT t.name AS tag, COUNT(ct.user_id) AS count
+      FROM tags t
+      JOIN contact_tags ct ON ct.tag_id = t.id
+      GROUP BY t.id
+      ORDER BY t.name COLLATE NOCASE
+    `);
+
+    return result.toArray().map((row) => ({
+      tag: row.tag as string,
+      count: row.count as number,
+    }));
+  }
+}
+
+// Roles in a workspace, from least to most rights: readers see what was shared,
+// writers also publish tags and notes, owners also invite and remove members
+const WORKSPACE_ROLES = ["read", "write", "owner"];
+
+// Invites are single use and expire after this many days
+const WORKSPACE_INVITE_DAYS = 7;
+
+// The logged in X user acting on a workspace
+export interface WorkspaceUser {
+  id: string;
+  username: string;
+}
+
+// Returned instead of a result when a workspace call is not allowed
+export interface WorkspaceFailure {
+  error: string;
+  status: 400 | 403 | 404;
+}
+
+// Tags and notes that workspace members shared about one contact
+export interface SharedAnnotations {
+  tags: Array<{ tag: string; published_by: string }>;
+  notes: Array<{ author: string; note: string; updated_at: string }>;
+}
+
+export interface WorkspaceSummary {
+  id: string;
+  name: string;
+  role: string;
+  created_at: string;
+  members: Array<{ username: string; role: string; joined_at: string }>;
+  tags: Array<{ tag: string; contacts: number; published_by: string[] }>;
+  notes: number;
+}
+
+// Shared workspace of a team: its members and the tags and notes they published.
+// Contacts are keyed on their X user id, so they merge with each member's own follows.
+export class WorkspaceDurableObject extends DurableObject<Env> {
+  sql: SqlStorage;
+  constructor(state: DurableObjectState, env: Env) {
+    super(state, env);
+    this.sql = state.storage.sql;
+    this.env = env;
+  }
+
+  async initSchema() {
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS workspace (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS members (
+        user_id TEXT PRIMARY KEY,
+        username TEXT NOT NULL,
+        role TEXT NOT NULL,
+        joined_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS invites (
+        code TEXT PRIMARY KEY,
+        role TEXT NOT NULL,
+        created_by TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        used_by TEXT,
+        used_at TEXT
+      )
+    `);
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS shared_tags (
+        contact_user_id TEXT NOT NULL,
+        contact_username TEXT NOT NULL,
+        tag TEXT NOT NULL COLLATE NOCASE,
+        author_id TEXT NOT NULL,
+        published_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (contact_user_id, tag, author_id)
+      )
+    `);
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS shared_notes (
+        contact_user_id TEXT NOT NULL,
+        contact_username TEXT NOT NULL,
+        author_id TEXT NOT NULL,
+        note TEXT NOT NULL,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (contact_user_id, author_id)
+      )
+    `);
+  }
+
+  // Returns why the user can't act with the given role, or null when they can
+  authorize(user: WorkspaceUser, role: string): WorkspaceFailure | null {
+    if (this.sql.exec(`SELECT id FROM workspace`).toArray().length === 0) {
+      return { error: "Workspace not found", status: 404 };
+    }
+
+    const member = this.sql
+      .exec(`SELECT role FROM members WHERE user_id = ?`, user.id)
+      .toArray();
+    if (member.length === 0) {
+      return { error: "Not a member of this workspace", status: 403 };
+    }
+
+    if (
+      WORKSPACE_ROLES.indexOf(member[0].role as string) <
+      WORKSPACE_ROLES.indexOf(role)
+    ) {
+      return {
+        error: `This needs the '${role}' role, you have '${member[0].role}'`,
+        status: 403,
+      };
+    }
+
+    // Keep the handle current for authorship
+    this.sql.exec(
+      `UPDATE members SET username = ? WHERE user_id = ?`,
+      user.username,
+      user.id
+    );
+    return null;
+  }
+
+  async create(id: string, name: string, owner: WorkspaceUser) {
+    await this.initSchema();
+
+    this.sql.exec(`INSERT INTO workspace (id, name) VALUES (?, ?)`, id, name);
+    this.sql.exec(
+      `INSERT INTO members (user_id, username, role) VALUES (?, ?, 'owner')`,
+      owner.id,
+      owner.username
+    );
+
+    return { id, name, role: "owner" };
+  }
+
+  async getWorkspace(
+    user: WorkspaceUser
+  ): Promise<WorkspaceSummary | WorkspaceFailure> {
+    await this.initSchema();
+
+    const failure = this.authorize(user, "read");
+    if (failure) return failure;
+
+    const workspace = this.sql
+      .exec(`SELECT id, name, created_at FROM workspace`)
+      .one();
+    const members = this.sql
+      .exec(
+        `SELECT user_id, username, role, joined_at FROM members ORDER BY joined_at`
+      )
+      .toArray();
+    const tags = this.sql
+      .exec(
+        `SELECT st.tag, COUNT(DISTINCT st.contact_user_id) AS contacts,
+                json_group_array(DISTINCT m.username) AS published_by
+         FROM shared_tags st JOIN members m ON m.user_id = st.author_id
+         GROUP BY st.tag ORDER BY st.tag COLLATE NOCASE`
+      )
+      .toArray();
+    const { notes } = this.sql
+      .exec(
+        `SELECT COUNT(*) AS notes FROM shared_notes
+         WHERE author_id IN (SELECT user_id FROM members)`
+      )
+      .one();
+
+    return {
+      id: workspace.id as string,
+      name: workspace.name as string,
+      role: members.find((m) => m.user_id === user.id).role as string,
+      created_at: workspace.created_at as string,
+      members: members.map((m) => ({
+        username: m.username as string,
+        role: m.role as string,
+        joined_at: m.joined_at as string,
+      })),
+      tags: tags.map((row) => ({
+        tag: row.tag as string,
+        contacts: row.contacts as number,
+        published_by: JSON.parse(row.published_by as string),
+      })),
+      notes: notes as number,
+    };
+  }
+
+  async createInvite(
+    user: WorkspaceUser,
+    role: string
+  ): Promise<{ code: string; role: string; expires_at: string } | WorkspaceFailure> {
+    await this.initSchema();
+
+    const failure = this.authorize(user, "owner");
+    if (failure) return failure;
+
+    const code = crypto.randomUUID();
+    const expiresAt = new Date(
+      Date.now() + WORKSPACE_INVITE_DAYS * 24 * 60 * 60 * 1000
+    ).toISOString();
+    this.sql.exec(
+      `INSERT INTO invites (code, role, created_by, expires_at) VALUES (?, ?, ?, ?)`,
+      code,
+      role,
+      user.id,
+      expiresAt
+    );
+
+    return { code, role, expires_at: expiresAt };
+  }
+
+  async join(
+    code: string,
+    user: WorkspaceUser
+  ): Promise<{ id: string; name: string; role: string } | WorkspaceFailure> {
+    await this.initSchema();
+
+    const workspace = this.sql.exec(`SELECT id, name FROM workspace`).toArray();
+    if (workspace.length === 0) {
+      return { error: "Workspace not found", status: 404 };
+    }
+    const { id, name } = workspace[0] as { id: string; name: string };
+
+    const member = this.sql
+      .exec(`SELECT role FROM members WHERE user_id = ?`, user.id)
+      .toArray();
+    if (member.length > 0) {
+      return { id, name, role: member[0].role as string };
+    }
+
+    const invite = this.sql
+      .exec(
+        `SELECT role FROM invites WHERE code = ? AND used_by IS NULL AND expires_at > ?`,
+        code,
+        new Date().toISOString()
+      )
+      .toArray();
+    if (invite.length === 0) {
+      return { error: "Invite is invalid, used or expired", status: 403 };
+    }
+
+    const role = invite[0].role as string;
+    this.sql.exec(
+      `INSERT INTO members (user_id, username, role) VALUES (?, ?, ?)`,
+      user.id,
+      user.username,
+      role
+    );
+    this.sql.exec(
+      `UPDATE invites SET used_by = ?, used_at = CURRENT_TIMESTAMP WHERE code = ?`,
+      user.id,
+      code
+    );
+
+    return { id, name, role };
+  }
+
+  // Owners remove anyone, other members only themselves. What the member
+  // published is removed with them.
+  async removeMember(
+    user: WorkspaceUser,
+    username: string
+  ): Promise<
+    { removed: string; user_id: string; tags: number; notes: number } | WorkspaceFailure
+  > {
+    await this.initSchema();
+
+    const failure = this.authorize(user, "read");
+    if (failure) return failure;
+
+    const target = this.sql
+      .exec(
+        `SELECT user_id, username, role FROM members WHERE username = ? COLLATE NOCASE`,
+        username.replace(/^@/, "")
+      )
+      .toArray();
+    if (target.length === 0) {
+      return { error: `'${username}' is not a member`, status: 404 };
+    }
+    const { user_id: targetId, role } = target[0] as {
+      user_id: string;
+      role: string;
+    };
+
+    if (targetId !== user.id) {
+      const ownerFailure = this.authorize(user, "owner");
+      if (ownerFailure) return ownerFailure;
+    }
+
+    if (role === "owner") {
+      const { owners } = this.sql
+        .exec(`SELECT COUNT(*) AS owners FROM members WHERE role = 'owner'`)
+        .one();
+      if (owners === 1) {
+        return { error: "The last owner can't leave the workspace", status: 400 };
+      }
+    }
+
+    this.sql.exec(`DELETE FROM members WHERE user_id = ?`, targetId);
+    const tags = this.sql.exec(
+      `DELETE FROM shared_tags WHERE author_id = ?`,
+      targetId
+    ).rowsWritten;
+    const notes = this.sql.exec(
+      `DELETE FROM shared_notes WHERE author_id = ?`,
+      targetId
+    ).rowsWritten;
+
+    return {
+      removed: target[0].username as string,
+      user_id: targetId,
+      tags,
+      notes,
+    };
+  }
+
+  // Publishes a tag of the user's CRM: replaces what they published under it
+  // before, and optionally their notes on those contacts
+  async publishTag(
+    user: WorkspaceUser,
+    tag: string,
+    contacts: Array<{ user_id: string; username: string; note: string | null }>,
+    includeNotes: boolean
+  ): Promise<{ tag: string; published: number; notes: number } | WorkspaceFailure> {
+    await this.initSchema();
+
+    const failure = this.authorize(user, "write");
+    if (failure) return failure;
+
+    this.sql.exec(
+      `DELETE FROM shared_tags WHERE tag = ? AND author_id = ?`,
+      tag,
+      user.id
+    );
+    let notes = 0;
+    for (const contact of contacts) {
+      this.sql.exec(
+        `INSERT INTO shared_tags (contact_user_id, contact_username, tag, author_id)
+         VALUES (?, ?, ?, ?)`,
+        contact.user_id,
+        contact.username,
+        tag,
+        user.id
+      );
+      if (includeNotes && contact.note?.trim()) {
+        this.upsertNote(user, contact, contact.note);
+        notes++;
+      }
+    }
+
+    return { tag, published: contacts.length, notes };
+  }
+
+  async unpublishTag(
+    user: WorkspaceUser,
+    tag: string
+  ): Promise<{ tag: string; removed: number } | WorkspaceFailure> {
+    await this.initSchema();
+
+    const failure = this.authorize(user, "write");
+    if (failure) return failure;
+
+    const removed = this.sql.exec(
+      `DELETE FROM shared_tags WHERE tag = ? AND author_id = ?`,
+      tag,
+      user.id
+    ).rowsWritten;
+
+    return { tag, removed };
+  }
+
+  upsertNote(
+    user: WorkspaceUser,
+    contact: { user_id: string; username: string },
+    note: string
+  ) {
+    this.sql.exec(
+      `INSERT INTO shared_notes (contact_user_id, contact_username, author_id, note)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT (contact_user_id, author_id) DO UPDATE SET
+         contact_username = excluded.contact_username,
+         note = excluded.note,
+         updated_at = CURRENT_TIMESTAMP`,
+      contact.user_id,
+      contact.username,
+      user.id,
+      note
+    );
+  }
+
+  async publishNote(
+    user: WorkspaceUser,
+    contact: { user_id: string; username: string },
+    note: string
+  ): Promise<{ username: string; published: boolean } | WorkspaceFailure> {
+    await this.initSchema();
+
+    const failure = this.authorize(user, "write");
+    if (failure) return failure;
+
+    this.upsertNote(user, contact, note);
+    return { username: contact.username, published: true };
+  }
+
+  async unpublishNote(
+    user: WorkspaceUser,
+    contactUserId: string
+  ): Promise<{ removed: number } | WorkspaceFailure> {
+    await this.initSchema();
+
+    const failure = this.authorize(user, "write");
+    if (failure) return failure;
+
+    const removed = this.sql.exec(
+      `DELETE FROM shared_notes WHERE contact_user_id = ? AND author_id = ?`,
+      contactUserId,
+      user.id
+    ).rowsWritten;
+
+    return { removed };
+  }
+
+  // Shared tags and notes of the given contacts, by X user id
+  async getAnnotations(
+    user: WorkspaceUser,
+    contactUserIds: string[]
+  ): Promise<{ annotations: Record<string, SharedAnnotations> } | WorkspaceFailure> {
+    await this.initSchema();
+
+    const failure = this.authorize(user, "read");
+    if (failure) return failure;
+
+    const ids = JSON.stringify(contactUserIds);
+    const annotations: Record<string, SharedAnnotations> = {};
+    const get = (id: string) =>
+      (annotations[id] = annotations[id] || { tags: [], notes: [] });
+
+    for (const row of this.sql
+      .exec(
+        `SELECT st.contact_user_id, st.tag, m.username
+         FROM shared_tags st JOIN members m ON m.user_id = st.author_id
+         WHERE st.contact_user_id IN (SELECT value FROM json_each(?))
+         ORDER BY st.tag COLLATE NOCASE`,
+        ids
+      )
+      .toArray()) {
+      get(row.contact_user_id as string).tags.push({
+        tag: row.tag as string,
+        published_by: row.username as string,
+      });
+    }
+
+    for (const row of this.sql
+      .exec(
+        `SELECT sn.contact_user_id, sn.note, sn.updated_at, m.username
+         FROM shared_notes sn JOIN members m ON m.user_id = sn.author_id
+         WHERE sn.contact_user_id IN (SELECT value FROM json_each(?))
+         ORDER BY sn.updated_at DESC`,
+        ids
+      )
+      .toArray()) {
+      get(row.contact_user_id as string).notes.push({
+        author: row.username as string,
+        note: row.note as string,
+        updated_at: row.updated_at as string,
+      });
+    }
+
+    return { annotations };
+  }
+}
+
+// The worker's routes. Exported so tests can call them with a user context.
+export const handler = async (
+  request: Request,
+  env: Env,
+  ctx: UserContext
+): Promise<Response> => {
+  const url = new URL(request.url);
+
+  // Ensure required env vars
+  const configError = providerConfigError(env) || syncPolicyConfigError(env);
+  if (configError) {
+    return new Response(configError, {
+      status: 500,
+    });
+  }
+
+  // Get user's Durable Object
+  const getUserDO = () => {
+    if (!ctx.user?.id) {
+      throw new Error("User not authenticated");
+    }
+    return env.CRMDURABLEOBJECT.get(
+      env.CRMDURABLEOBJECT.idFromName(ctx.user.id)
+    );
+  };
+
+  // Get a team workspace's Durable Object
+  const getWorkspaceDO = (id: string) =>
+    env.WORKSPACEDURABLEOBJECT.get(
+      env.WORKSPACEDURABLEOBJECT.idFromName(id)
+    );
+
+  const workspaceUser = (): WorkspaceUser => ({
+    id: ctx.user.id,
+    username: ctx.user.username,
+  });
+
+  // Adds the tags and notes members shared in a workspace to the user's
+  // own contacts, as `shared`
+  const withWorkspace = async <T extends Record<string, any>>(
+    workspaceId: string | null,
+    contacts: T[]
+  ): Promise<
+    { contacts: Array<T & { shared?: SharedAnnotations }> } | WorkspaceFailure
+  > => {
+    if (!workspaceId) return { contacts };
+
+    const result = await getWorkspaceDO(workspaceId).getAnnotations(
+      workspaceUser(),
+      contacts.map((x) => x.user_id as string)
+    );
+    if ("error" in result) return result;
+
+    return {
+      contacts: contacts.map((x) => ({
+        ...x,
+        shared: result.annotations[x.user_id] || { tags: [], notes: [] },
+      })),
+    };
+  };
+
+  // Sync follows endpoint
+  if (url.pathname === "/sync") {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    try {
+      const userDO = getUserDO();
+
+      // A running sync is reported and a failed one resumes, both without counting as a new sync
+      const status = await userDO.getSyncStatus(ctx.user?.username);
+      const resumable = ["running", "backoff", "failed"].includes(
+        status.state as string
+      );
+
+      // The cooldown and admins come from the sync policy, see sync-policy.ts
+      const { quota } = status;
+      if (!quota.can_sync && !resumable) {
+        const hoursUntilNextSync = Math.ceil(
+          (new Date(quota.next_sync_at).getTime() - Date.now()) /
+            (60 * 60 * 1000)
+        );
+        return new Response(
+          JSON.stringify({
+            error: `Sync limited to once per ${quota.cooldown_hours} hours. Next sync available in ${hoursUntilNextSync} hours.`,
+            next_sync_at: quota.next_sync_at,
+            quota,
+          }),
+          {
+            status: 429,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const result = await userDO.syncFollows(ctx.user?.username);
+
+      return new Response(JSON.stringify(result), {
+        status: 202,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      console.error("Sync error:", error);
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Sync progress endpoint
+  if (url.pathname === "/sync/status" && request.method === "GET") {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    try {
+      const userDO = getUserDO();
+      const status = await userDO.getSyncStatus(ctx.user?.username);
+
+      return new Response(JSON.stringify(status), {
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Changes of the last sync endpoint
+  if (url.pathname === "/sync/changes" && request.method === "GET") {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    try {
+      const userDO = getUserDO();
+      const changes = await userDO.getSyncChanges();
+
+      if (!changes) {
+        return new Response(
+          JSON.stringify({ error: "No completed sync yet" }),
+          {
+            status: 404,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      return new Response(JSON.stringify(changes), {
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Profile changes and follower growth from the sync snapshots
+  if (url.pathname === "/changes" && request.method === "GET") {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    const days = parseInt(url.searchParams.get("days") || "", 10);
+    const since = url.searchParams.get("since")
+      ? toIsoDate(url.searchParams.get("since"))
+      : Number.isInteger(days) && days > 0
+      ? new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+      : undefined;
+    const events = (url.searchParams.get("events") || "")
+      .split(",")
+      .map((event) => event.trim())
+      .filter(Boolean);
+    const unknownEvents = events.filter(
+      (event) => !PROFILE_CHANGE_FIELDS[event]
+    );
+    const relationship = url.searchParams.get("relationship");
+
+    if (since && isNaN(Date.parse(since))) {
+      return new Response(
+        JSON.stringify({ error: "'since' must be a date, e.g. 2025-01-31" }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+    if (unknownEvents.length > 0) {
+      return new Response(
+        JSON.stringify({
+          error: `Unknown events: ${unknownEvents.join(", ")}. Available: ${Object.keys(
+            PROFILE_CHANGE_FIELDS
+          ).join(", ")}`,
+        }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+    if (relationship && !RELATIONSHIPS.includes(relationship)) {
+      return new Response(
+        JSON.stringify({
+          error: `'relationship' must be one of: ${RELATIONSHIPS.join(", ")}`,
+        }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    try {
+      const userDO = getUserDO();
+      const result = await userDO.getChanges({
+        since,
+        events,
+        relationship: relationship || undefined,
+        tag: url.searchParams.get("tag") || undefined,
+        limit: Math.min(
+          parseInt(url.searchParams.get("limit") || "50", 10) || 50,
+          500
+        ),
+      });
+
+      return new Response(JSON.stringify(result), {
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Tags whose contacts get their tweets fetched
+  if (url.pathname === "/tweets/tags" && request.method === "GET") {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    try {
+      const userDO = getUserDO();
+      const tags = await userDO.listTweetTags();
+
+      return new Response(JSON.stringify({ tags }), {
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Opt a tag in or out of fetching tweets
+  if (
+    url.pathname.startsWith("/tweets/tags/") &&
+    (request.method === "POST" || request.method === "DELETE")
+  ) {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    const tag = decodeURIComponent(
+      url.pathname.slice("/tweets/tags/".length)
+    );
+
+    try {
+      const userDO = getUserDO();
+      const result =
+        request.method === "POST"
+          ? await userDO.enableTweets(tag)
+          : await userDO.disableTweets(tag);
+
+      return new Response(JSON.stringify(result), {
+        status: result.error ? 404 : 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Full-text search over stored tweets
+  if (url.pathname === "/tweets/search" && request.method === "GET") {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    const q = url.searchParams.get("q");
+    if (!q) {
+      return new Response(JSON.stringify({ error: "Query 'q' required" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const since = url.searchParams.get("since")
+      ? toIsoDate(url.searchParams.get("since"))
+      : undefined;
+    if (since && isNaN(Date.parse(since))) {
+      return new Response(
+        JSON.stringify({ error: "'since' must be a date, e.g. 2025-01-31" }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    try {
+      const userDO = getUserDO();
+      const results = await userDO.searchTweets(q, {
+        since,
+        username: url.searchParams.get("username") || undefined,
+        tag: url.searchParams.get("tag") || undefined,
+        limit: Math.min(
+          parseInt(url.searchParams.get("limit") || "20", 10) || 20,
+          200
+        ),
+      });
+
+      return new Response(JSON.stringify({ results }), {
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Digest of recent tweets of a contact or a tag
+  if (url.pathname === "/activity" && request.method === "GET") {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    const username = url.searchParams.get("username")?.replace(/^@/, "");
+    const tag = url.searchParams.get("tag");
+    if (!username === !tag) {
+      return new Response(
+        JSON.stringify({ error: "Either 'username' or 'tag' required" }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const since = url.searchParams.get("since")
+      ? toIsoDate(url.searchParams.get("since"))
+      : undefined;
+    if (since && isNaN(Date.parse(since))) {
+      return new Response(
+        JSON.stringify({ error: "'since' must be a date, e.g. 2025-01-31" }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    try {
+      const userDO = getUserDO();
+      const activity = await userDO.getRecentActivity({
+        username: username || undefined,
+        tag: tag || undefined,
+        since,
+      });
+
+      if (activity.error) {
+        return new Response(JSON.stringify({ error: activity.error }), {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      // If JSON requested
+      if (request.headers.get("accept") === "application/json") {
+        return new Response(JSON.stringify(activity), {
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      return new Response(
+        activityToMarkdown(activity, username ? `@${username}` : `tag '${tag}'`)
+      );
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: error instanceof TwitterApiError ? 502 : 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Webhooks endpoint: list the registered webhooks or register one
+  if (url.pathname === "/webhooks") {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    if (request.method === "POST") {
+      const webhookUrl = url.searchParams.get("url") || "";
+      let protocol = "";
+      try {
+        protocol = new URL(webhookUrl).protocol;
+      } catch {
+        protocol = "";
+      }
+      if (protocol !== "https:") {
+        return new Response(
+          JSON.stringify({ error: "'url' must be an https URL" }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const events = (url.searchParams.get("events") || WEBHOOK_EVENTS.join(","))
+        .split(",")
+        .map((event) => event.trim())
+        .filter(Boolean);
+      const unknown = events.filter((event) => !WEBHOOK_EVENTS.includes(event));
+      if (events.length === 0 || unknown.length > 0) {
+        return new Response(
+          JSON.stringify({
+            error: `'events' must be a comma-separated list of: ${WEBHOOK_EVENTS.join(
+              ", "
+            )}`,
+          }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      try {
+        const userDO = getUserDO();
+        const webhook = await userDO.createWebhook(
+          webhookUrl,
+          [...new Set(events)]
+        );
+
+        return new Response(JSON.stringify(webhook), {
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        return new Response(JSON.stringify({ error: error.message }), {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+    }
+
+    try {
+      const userDO = getUserDO();
+      const webhooks = await userDO.listWebhooks();
+
+      return new Response(
+        JSON.stringify({ webhooks, events: WEBHOOK_EVENTS }),
+        {
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Delivery log of the webhooks, most recent first
+  if (url.pathname === "/webhooks/deliveries" && request.method === "GET") {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    try {
+      const userDO = getUserDO();
+      const deliveries = await userDO.getWebhookDeliveries(
+        Math.min(
+          parseInt(url.searchParams.get("limit") || "50", 10) || 50,
+          WEBHOOK_LOG_SIZE
+        ),
+        parseInt(url.searchParams.get("webhook_id") || "", 10) || undefined
+      );
+
+      return new Response(JSON.stringify({ deliveries }), {
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Remove a webhook, its pending deliveries are dropped
+  if (url.pathname.startsWith("/webhooks/") && request.method === "DELETE") {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    const id = parseInt(url.pathname.slice("/webhooks/".length), 10);
+    if (isNaN(id)) {
+      return new Response(JSON.stringify({ error: "Invalid webhook id" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    try {
+      const userDO = getUserDO();
+      const result = await userDO.deleteWebhook(id);
+
+      return new Response(JSON.stringify(result), {
+        status: result.error ? 404 : 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Full-text search endpoint
+  if (url.pathname === "/search" && request.method === "GET") {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    const q = url.searchParams.get("q");
+    if (!q) {
+      return new Response(JSON.stringify({ error: "Query 'q' required" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const relationship = url.searchParams.get("relationship");
+    if (relationship && !RELATIONSHIPS.includes(relationship)) {
+      return new Response(
+        JSON.stringify({
+          error: `Relationship must be one of: ${RELATIONSHIPS.join(", ")}`,
+        }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    try {
+      const userDO = getUserDO();
+      const limit = Math.min(
+        parseInt(url.searchParams.get("limit") || "20", 10) || 20,
+        200
+      );
+      const merged = await withWorkspace(
+        url.searchParams.get("workspace"),
+        await userDO.searchContacts(
+          q,
+          limit,
+          url.searchParams.get("tag") || undefined,
+          relationship || undefined
+        )
+      );
+      if ("error" in merged) {
+        return new Response(JSON.stringify({ error: merged.error }), {
+          status: merged.status,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      const results = merged.contacts;
+
+      // If JSON requested
+      if (request.headers.get("accept") === "application/json") {
+        return new Response(JSON.stringify({ results }), {
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      // Return markdown format
+      const output =
+        results.length === 0
+          ? `No contacts found for "${q}"`
+          : results
+              .map(
+                (x) =>
+                  `${followToMarkdown({
+                    ...x,
+                    note: null,
+                    description: null,
+                  })} ${x.snippet}`
+              )
+              .join("\n");
+
+      return new Response(output);
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Get follows endpoint
+  if (url.pathname === "/follows" && request.method === "GET") {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    const parsed = parseFollowsQuery(url.searchParams);
+    if (parsed.error) {
+      return new Response(JSON.stringify({ error: parsed.error }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    const { query } = parsed as { query: FollowsQuery };
+    const workspace = url.searchParams.get("workspace");
+    if (workspace && query.fields) query.fields.push("user_id");
+
+    try {
+      const userDO = getUserDO();
+      const page = await userDO.getFollows(query);
+      const { total, offset, next_offset } = page;
+      const merged = await withWorkspace(workspace, page.follows);
+      if ("error" in merged) {
+        return new Response(JSON.stringify({ error: merged.error }), {
+          status: merged.status,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      const follows = merged.contacts;
+      const uniqueTags = await userDO.getUniqueTags();
+      const customFields = await userDO.listFields();
+
+      // If JSON requested
+      if (request.headers.get("accept") === "application/json") {
+        return new Response(
+          JSON.stringify({
+            follows,
+            uniqueTags,
+            customFields,
+            total,
+            offset,
+            next_offset,
+          }),
+          {
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      // Return markdown format
+      let output = "";
+
+      if (query.archived) {
+        output += `**Archived contacts** (no longer following or followed, notes and tags kept)\n\n`;
+      }
+
+      if (uniqueTags.length > 0) {
+        output += `**Tags:** ${uniqueTags
+          .map((t) => `${t.tag} (${t.count})`)
+          .join(", ")}\n\n`;
+      }
+
+      if (customFields.length > 0) {
+        output += `**Custom fields:** ${customFields
+          .map((f) => `${f.name} (${f.type})`)
+          .join(", ")}\n\n`;
+      }
+
+      output += `**Showing:** ${
+        follows.length > 0
+          ? `${offset + 1}-${offset + follows.length}`
+          : "0"
+      } of ${total}${
+        next_offset !== null ? ` (next page: offset=${next_offset})` : ""
+      }\n\n`;
+
+      const extraFields = (query.fields || []).filter(
+        (field) => !MARKDOWN_FIELDS.includes(field)
+      );
+      output += follows
+        .map((x) => followToMarkdown(x, extraFields))
+        .join("\n");
+
+      return new Response(output);
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Custom field definitions endpoint
+  if (url.pathname === "/fields") {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    try {
+      const userDO = getUserDO();
+
+      if (request.method === "GET") {
+        const fields = await userDO.listFields();
+        return new Response(JSON.stringify({ fields }), {
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      if (request.method === "POST") {
+        const name = url.searchParams.get("name")?.trim();
+        const type = url.searchParams.get("type");
+        const options = (url.searchParams.get("options") || "")
+          .split(",")
+          .map((option) => option.trim())
+          .filter(Boolean);
+
+        if (!name || !/^[a-z][a-z0-9_]*$/i.test(name)) {
+          return new Response(
+            JSON.stringify({
+              error:
+                "Field name required: letters, digits and underscores, starting with a letter",
+            }),
+            {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        if (FOLLOW_FIELDS.includes(name.toLowerCase())) {
+          return new Response(
+            JSON.stringify({
+              error: `'${name}' is a built-in field`,
+            }),
+            {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        if (!FIELD_TYPES.includes(type)) {
+          return new Response(
+            JSON.stringify({
+              error: `Type must be one of: ${FIELD_TYPES.join(", ")}`,
+            }),
+            {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        if (type === "select" && options.length === 0) {
+          return new Response(
+            JSON.stringify({
+              error: "Select fields need comma-separated 'options'",
+            }),
+            {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        const field = await userDO.defineField(name, type, options);
+        return new Response(JSON.stringify({ field }), {
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Delete custom field endpoint
+  if (url.pathname.startsWith("/fields/") && request.method === "DELETE") {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    const name = decodeURIComponent(url.pathname.split("/fields/")[1]);
+
+    if (!name) {
+      return new Response(JSON.stringify({ error: "Field required" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    try {
+      const userDO = getUserDO();
+      const result = await userDO.deleteField(name);
+
+      return new Response(JSON.stringify(result), {
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Pipelines endpoint
+  if (url.pathname === "/pipelines") {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    try {
+      const userDO = getUserDO();
+
+      if (request.method === "GET") {
+        const pipelines = await userDO.listPipelines();
+        return new Response(JSON.stringify({ pipelines }), {
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      if (request.method === "POST") {
+        const name = url.searchParams.get("name")?.trim();
+        const stages = parseTags(url.searchParams.get("stages") || "");
+
+        if (!name || name.includes("/")) {
+          return new Response(
+            JSON.stringify({
+              error: "Pipeline name required, without slashes",
+            }),
+            {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        if (stages.length === 0) {
+          return new Response(
+            JSON.stringify({
+              error: "Pipelines need comma-separated 'stages', in order",
+            }),
+            {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        const result = await userDO.createPipeline(name, stages);
+        return new Response(JSON.stringify(result), {
+          status: result.error ? 409 : 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Delete pipeline endpoint
+  if (url.pathname.startsWith("/pipelines/") && request.method === "DELETE") {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    const name = decodeURIComponent(url.pathname.split("/pipelines/")[1] || "");
+
+    if (!name) {
+      return new Response(JSON.stringify({ error: "Pipeline required" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    try {
+      const userDO = getUserDO();
+      const result = await userDO.deletePipeline(name);
+
+      return new Response(JSON.stringify(result), {
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Set the stage of a contact in a pipeline
+  if (
+    url.pathname.startsWith("/contact/") &&
+    url.pathname.endsWith("/stage") &&
+    request.method === "POST"
+  ) {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    const username = decodeURIComponent(
+      url.pathname.slice("/contact/".length, -"/stage".length)
+    );
+    const pipeline = url.searchParams.get("pipeline");
+
+    if (!username || !pipeline) {
+      return new Response(
+        JSON.stringify({ error: "Username and 'pipeline' required" }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    try {
+      const userDO = getUserDO();
+      const result = await userDO.setStage(
+        username,
+        pipeline,
+        url.searchParams.get("stage")
+      );
+
+      return new Response(JSON.stringify(result), {
+        status: result.error ? 404 : 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Pipeline board: json for API clients, a kanban board for browsers
+  if (url.pathname.startsWith("/pipeline/") && request.method === "GET") {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    const name = decodeURIComponent(url.pathname.split("/pipeline/")[1] || "");
+
+    try {
+      const userDO = getUserDO();
+      const pipeline = await userDO.getPipeline(
+        name,
+        url.searchParams.get("history") === "true"
+      );
+
+      if (!request.headers.get("accept")?.includes("text/html")) {
+        return new Response(JSON.stringify(pipeline), {
+          status: pipeline.error ? 404 : 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      if (pipeline.error) {
+        return new Response(escapeHtml(pipeline.error), {
+          status: 404,
+          headers: { "Content-Type": "text/html;charset=utf8" },
+        });
+      }
+
+      const pipelines = await userDO.listPipelines();
+
+      return new Response(
+        `
+        <html>
+          <head>
+            <title>${escapeHtml(pipeline.name)} - X CRM</title>
+            <style>
+              body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; margin: 20px; }
+              .header { margin-bottom: 20px; padding-bottom: 20px; border-bottom: 1px solid #eee; }
+              .board { display: flex; gap: 12px; align-items: flex-start; overflow-x: auto; }
+              .column { flex: 0 0 240px; background: #f4f5f7; border-radius: 6px; padding: 8px; min-height: 200px; }
+              .column.over { background: #e3f2fd; }
+              .column h3 { margin: 4px 4px 8px 4px; font-size: 14px; }
+              .column h3 .count { color: #666; font-weight: normal; }
+              .card { background: white; border: 1px solid #ddd; border-radius: 4px; padding: 8px; margin-bottom: 8px; cursor: grab; font-size: 12px; }
+              .card.dragging { opacity: 0.5; }
+              .card img { width: 24px; height: 24px; border-radius: 50%; vertical-align: middle; margin-right: 6px; }
+              .card .meta { color: #666; font-size: 11px; margin-top: 4px; }
+              .card .note { background: #fff3cd; padding: 4px; border-radius: 4px; margin-top: 4px; }
+              .pipelines a { margin-right: 10px; }
+              .add { margin-bottom: 20px; }
+            </style>
+          </head>
+          <body>
+            <div class="header">
+              <h1>${escapeHtml(pipeline.name)}</h1>
+              <p><a href="/">Back to contacts</a></p>
+              <p class="pipelines">Pipelines: ${pipelines
+                .map(
+                  (p) =>
+                    `<a href="/pipeline/${encodeURIComponent(
+                      p.name
+                    )}">${escapeHtml(p.name)}</a>`
+                )
+                .join("")}</p>
+            </div>
+
+            <form class="add" onsubmit="addContact(event)">
+              <input id="add-username" placeholder="@username" required>
+              <button type="submit">Add to ${escapeHtml(
+                pipeline.stages[0]?.name
+              )}</button>
+            </form>
+
+            <div class="board" data-pipeline="${escapeHtml(pipeline.name)}">
+              ${pipeline.stages
+                .map(
+                  (stage) => `
+                <div class="column" data-stage="${escapeHtml(stage.name)}">
+                  <h3>${escapeHtml(stage.name)} <span class="count">${
+                    stage.contacts.length
+                  }</span></h3>
+                  ${stage.contacts
+                    .map(
+                      (contact) => `
+                    <div class="card" draggable="true" data-username="${escapeHtml(
+                      contact.username
+                    )}">
+                      <img src="${escapeHtml(
+                        contact.profile_image_url
+                      )}" onerror="this.style.display='none'"><strong>@${escapeHtml(
+                        contact.username
+                      )}</strong> ${escapeHtml(contact.name)}
+                      ${
+                        contact.note
+                          ? `<div class="note">${escapeHtml(contact.note)}</div>`
+                          : ""
+                      }
+                      <div class="meta">${
+                        contact.days_in_stage === 0
+                          ? "in stage since today"
+                          : `${contact.days_in_stage} days in stage`
+                      }${contact.tags ? ` · ${escapeHtml(contact.tags)}` : ""}</div>
+                    </div>
+                  `
+                    )
+                    .join("")}
+                </div>
+              `
+                )
+                .join("")}
+            </div>
+
+            <script>${BOARD_SCRIPT}</script>
+          </body>
+        </html>
+      `,
+        {
+          headers: { "Content-Type": "text/html;charset=utf8" },
+        }
+      );
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Workspaces endpoint: list the user's workspaces or create one
+  if (url.pathname === "/workspaces") {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    try {
+      const userDO = getUserDO();
+
+      if (request.method === "GET") {
+        const workspaces = await userDO.listWorkspaces();
+        return new Response(JSON.stringify({ workspaces }), {
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      if (request.method === "POST") {
+        const name = url.searchParams.get("name")?.trim();
+        if (!name) {
+          return new Response(
+            JSON.stringify({ error: "'name' required" }),
+            {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        const id = crypto.randomUUID();
+        const workspace = await getWorkspaceDO(id).create(
+          id,
+          name,
+          workspaceUser()
+        );
+        await userDO.addWorkspace(id, name, workspace.role);
+
+        return new Response(JSON.stringify(workspace), {
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      return new Response("Method not allowed", { status: 405 });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Workspace details: members and what was published
+  if (
+    url.pathname.startsWith("/workspaces/") &&
+    !url.pathname.slice("/workspaces/".length).includes("/") &&
+    request.method === "GET"
+  ) {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    const id = decodeURIComponent(url.pathname.slice("/workspaces/".length));
+
+    try {
+      const result = await getWorkspaceDO(id).getWorkspace(workspaceUser());
+
+      return new Response(JSON.stringify(result), {
+        status: "error" in result ? result.status : 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Invite someone to a workspace (owners only)
+  if (
+    url.pathname.startsWith("/workspaces/") &&
+    url.pathname.endsWith("/invites") &&
+    request.method === "POST"
+  ) {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    const id = decodeURIComponent(
+      url.pathname.slice("/workspaces/".length, -"/invites".length)
+    );
+    const role = url.searchParams.get("role") || "read";
+    if (!["read", "write"].includes(role)) {
+      return new Response(
+        JSON.stringify({ error: "'role' must be one of: read, write" }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    try {
+      const result = await getWorkspaceDO(id).createInvite(
+        workspaceUser(),
+        role
+      );
+      if ("error" in result) {
+        return new Response(JSON.stringify(result), {
+          status: result.status,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      return new Response(
+        JSON.stringify({
+          ...result,
+          join_url: `${url.origin}/workspaces/${encodeURIComponent(
+            id
+          )}/join?code=${result.code}`,
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Invite link opened in a browser: logs in first, then a page that joins with one click
+  if (
+    url.pathname.startsWith("/workspaces/") &&
+    url.pathname.endsWith("/join") &&
+    request.method === "GET"
+  ) {
+    if (!ctx.authenticated) {
+      return new Response(null, {
+        status: 302,
+        headers: {
+          Location: `/authorize?redirect_to=${encodeURIComponent(
+            url.pathname + url.search
+          )}`,
+        },
+      });
+    }
+
+    const id = decodeURIComponent(
+      url.pathname.slice("/workspaces/".length, -"/join".length)
+    );
+
+    return new Response(
+      `
+      <html>
+        <head>
+          <title>Join workspace - X CRM</title>
+          <style>
+            body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; margin: 20px; }
+          </style>
+        </head>
+        <body>
+          <h1>Join workspace</h1>
+          <p>You were invited to workspace <code>${escapeHtml(id)}</code> as @${escapeHtml(
+            ctx.user?.username
+          )}.</p>
+          <button id="join">Join</button>
+          <p><a href="/">Back to contacts</a></p>
+          <script>
+            document.getElementById("join").onclick = async () => {
+              const response = await fetch(location.href, { method: "POST" });
+              const result = await response.json().catch(() => ({}));
+              if (!response.ok || result.error) {
+                alert(result.error || "Joining failed (" + response.status + ")");
+                return;
+              }
+              location.href = "/";
+            };
+          </script>
+        </body>
+      </html>
+    `,
+      {
+        headers: { "Content-Type": "text/html;charset=utf8" },
+      }
+    );
+  }
+
+  // Join a workspace with an invite code
+  if (
+    url.pathname.startsWith("/workspaces/") &&
+    url.pathname.endsWith("/join") &&
+    request.method === "POST"
+  ) {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    const id = decodeURIComponent(
+      url.pathname.slice("/workspaces/".length, -"/join".length)
+    );
+    const code = url.searchParams.get("code");
+    if (!code) {
+      return new Response(JSON.stringify({ error: "'code' required" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    try {
+      const result = await getWorkspaceDO(id).join(code, workspaceUser());
+      if (!("error" in result)) {
+        await getUserDO().addWorkspace(result.id, result.name, result.role);
+      }
+
+      return new Response(JSON.stringify(result), {
+        status: "error" in result ? result.status : 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Remove a member from a workspace, or leave it
+  if (
+    url.pathname.startsWith("/workspaces/") &&
+    url.pathname.includes("/members/") &&
+    request.method === "DELETE"
+  ) {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    const [id, username] = url.pathname
+      .slice("/workspaces/".length)
+      .split("/members/")
+      .map(decodeURIComponent);
+
+    try {
+      const result = await getWorkspaceDO(id).removeMember(
+        workspaceUser(),
+        username
+      );
+      if (!("error" in result)) {
+        await env.CRMDURABLEOBJECT.get(
+          env.CRMDURABLEOBJECT.idFromName(result.user_id)
+        ).removeWorkspace(id);
+      }
+
+      return new Response(JSON.stringify(result), {
+        status: "error" in result ? result.status : 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Publish a tag to a workspace, or withdraw it
+  if (
+    url.pathname.startsWith("/workspaces/") &&
+    url.pathname.includes("/tags/") &&
+    (request.method === "POST" || request.method === "DELETE")
+  ) {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    const [id, tag] = url.pathname
+      .slice("/workspaces/".length)
+      .split("/tags/")
+      .map(decodeURIComponent);
+
+    try {
+      const workspaceDO = getWorkspaceDO(id);
+      let result:
+        | { tag: string; published: number; notes: number }
+        | { tag: string; removed: number }
+        | WorkspaceFailure;
+
+      if (request.method === "DELETE") {
+        result = await workspaceDO.unpublishTag(workspaceUser(), tag);
+      } else {
+        const { follows } = await getUserDO().getFollows({
+          tag,
+          fields: ["user_id", "username", "note"],
+        });
+        if (follows.length === 0) {
+          return new Response(
+            JSON.stringify({ error: `No contacts with tag '${tag}'` }),
+            {
+              status: 404,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        result = await workspaceDO.publishTag(
+          workspaceUser(),
+          tag,
+          follows.map((x) => ({
+            user_id: x.user_id as string,
+            username: x.username as string,
+            note: x.note as string | null,
+          })),
+          url.searchParams.get("notes") === "true"
+        );
+      }
+
+      return new Response(JSON.stringify(result), {
+        status: "error" in result ? result.status : 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Publish a note on a contact to a workspace, or withdraw it
+  if (
+    url.pathname.startsWith("/workspaces/") &&
+    url.pathname.includes("/notes/") &&
+    (request.method === "POST" || request.method === "DELETE")
+  ) {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    const [id, username] = url.pathname
+      .slice("/workspaces/".length)
+      .split("/notes/")
+      .map(decodeURIComponent);
+
+    try {
+      const details = await getUserDO().getContact(username);
+      if (!details) {
+        return new Response(
+          JSON.stringify({ error: `Username '${username}' not found` }),
+          {
+            status: 404,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const contact = {
+        user_id: details.contact.user_id as string,
+        username: details.contact.username as string,
+      };
+      const workspaceDO = getWorkspaceDO(id);
+      let result:
+        | { username: string; published: boolean }
+        | { removed: number }
+        | WorkspaceFailure;
+
+      if (request.method === "DELETE") {
+        result = await workspaceDO.unpublishNote(
+          workspaceUser(),
+          contact.user_id
+        );
+      } else {
+        // Defaults to the note in the user's own CRM
+        const note =
+          url.searchParams.get("note") ?? (details.contact.note as string);
+        if (!note?.trim()) {
+          return new Response(
+            JSON.stringify({
+              error: `No note on '${contact.username}' to publish`,
+            }),
+            {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+        result = await workspaceDO.publishNote(
+          workspaceUser(),
+          contact,
+          note
+        );
+      }
+
+      return new Response(JSON.stringify(result), {
+        status: "error" in result ? result.status : 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // X Lists endpoint
+  if (url.pathname === "/lists") {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    try {
+      const userDO = getUserDO();
+
+      if (request.method === "GET") {
+        const lists = await userDO.listXLists();
+        return new Response(JSON.stringify({ lists }), {
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      if (request.method === "POST") {
+        const listId = toListId(url.searchParams.get("list_id") || "");
+        const name = url.searchParams.get("name")?.trim() || listId;
+
+        if (!listId) {
+          return new Response(
+            JSON.stringify({
+              error: "'list_id' required: the numeric id or the x.com/i/lists/... url",
+            }),
+            {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        const result = await userDO.addXList(
+          listId,
+          name,
+          url.searchParams.get("tag") || undefined
+        );
+        return new Response(JSON.stringify(result), {
+          status: result.error ? 409 : 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Import the X Lists the user owns or follows as tags
+  if (url.pathname === "/lists/import" && request.method === "POST") {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    try {
+      const userDO = getUserDO();
+      const result = await userDO.importXLists(
+        ctx.user?.username,
+        changeSource(request)
+      );
+
+      return new Response(JSON.stringify(result), {
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: error instanceof TwitterApiError ? 502 : 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Sync the members of an X List onto its tag
+  if (
+    url.pathname.startsWith("/lists/") &&
+    url.pathname.endsWith("/sync") &&
+    request.method === "POST"
+  ) {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    const listId = toListId(
+      url.pathname.slice("/lists/".length, -"/sync".length)
+    );
+    const mode = url.searchParams.get("mode") || "import";
+    if (!X_LIST_SYNC_MODES.includes(mode)) {
+      return new Response(
+        JSON.stringify({
+          error: `'mode' must be one of: ${X_LIST_SYNC_MODES.join(", ")}`,
+        }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    try {
+      const userDO = getUserDO();
+      const result = await userDO.syncXList(
+        listId,
+        mode,
+        changeSource(request)
+      );
+
+      return new Response(JSON.stringify(result), {
+        status: result.error ? 404 : 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: error instanceof TwitterApiError ? 502 : 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Drift between an X List and its tag
+  if (
+    url.pathname.startsWith("/lists/") &&
+    url.pathname.endsWith("/drift") &&
+    request.method === "GET"
+  ) {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    const listId = toListId(
+      url.pathname.slice("/lists/".length, -"/drift".length)
+    );
+
+    try {
+      const userDO = getUserDO();
+      const result = await userDO.getXListDrift(listId);
+
+      return new Response(JSON.stringify(result), {
+        status: result.error ? 404 : 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Remove X List endpoint
+  if (url.pathname.startsWith("/lists/") && request.method === "DELETE") {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    const listId = toListId(url.pathname.slice("/lists/".length));
+
+    try {
+      const userDO = getUserDO();
+      const result = await userDO.removeXList(listId);
+
+      return new Response(JSON.stringify(result), {
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // MCP resource: one contact as a markdown document
+  if (
+    url.pathname.startsWith("/resources/contact/") &&
+    request.method === "GET"
+  ) {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    const username = decodeURIComponent(
+      url.pathname.slice("/resources/contact/".length)
+    );
+
+    try {
+      const userDO = getUserDO();
+      const details = await userDO.getContact(username);
+      if (!details) {
+        return new Response(`Username '${username}' not found`, {
+          status: 404,
+        });
+      }
+
+      return new Response(contactToMarkdown(details), {
+        headers: { "Content-Type": "text/markdown;charset=utf8" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // MCP resource: the members of a tag
+  if (url.pathname.startsWith("/resources/tag/") && request.method === "GET") {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    const tag = decodeURIComponent(url.pathname.slice("/resources/tag/".length));
+
+    try {
+      const userDO = getUserDO();
+      const { follows, total } = await userDO.getFollows({ tag });
+      if (total === 0) {
+        return new Response(`No contacts with tag '${tag}'`, {
+          status: 404,
+        });
+      }
+
+      return new Response(
+        `# Tag: ${tag}\n\n${total} contacts\n\n${follows
+          .map((x) => followToMarkdown(x))
+          .join("\n")}`,
+        {
+          headers: { "Content-Type": "text/markdown;charset=utf8" },
+        }
+      );
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // MCP prompt: research a contact and update their record
+  if (
+    url.pathname === "/prompts/research-contact" &&
+    request.method === "GET"
+  ) {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    const username = url.searchParams.get("username")?.replace(/^@/, "");
+    if (!username) {
+      return new Response("'username' required", { status: 400 });
+    }
+
+    try {
+      const userDO = getUserDO();
+      const details = await userDO.getContact(username);
+      if (!details) {
+        return new Response(`Username '${username}' not found`, {
+          status: 404,
+        });
+      }
+      const tags = await userDO.getUniqueTags();
+      const fields = await userDO.listFields();
+
+      return new Response(
+        `Research @${details.contact.username} and update their record in my X CRM.
+
+This is what the CRM knows so far:
+
+${contactToMarkdown(details)}
+
+Steps:
+1. Find out who they are and what they currently work on, starting from their bio and links. Use web search or fetch tools if you have them.
+2. Write a short note (2-4 sentences: role, company or projects, why they matter to me) and save it with updateContact. Keep what the existing note says unless it is outdated.
+3. Tag them with updateContact, preferring existing tags: ${
+          tags.map((t) => t.tag).join(", ") || "none yet"
+        }.
+4. Store concrete findings (GitHub, website, email, employer) in custom fields: ${
+          fields.map((f) => `${f.name} (${f.type})`).join(", ") ||
+          "none defined yet, create them with defineField"
+        }.
+5. If there is a reason to reach out, set follow_up_at and follow_up_reason.
+
+Finish with a summary of what you changed.`,
+        {
+          headers: { "Content-Type": "text/plain;charset=utf8" },
+        }
+      );
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // MCP prompt: find people in the network who need something
+  if (url.pathname === "/prompts/find-people" && request.method === "GET") {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    const need = url.searchParams.get("need")?.trim();
+    if (!need) {
+      return new Response("'need' required", { status: 400 });
+    }
+
+    try {
+      const userDO = getUserDO();
+      const candidates = await userDO.searchContacts(need, 25);
+
+      return new Response(
+        `Find people in my X network who need: ${need}
+
+Full-text search over names, bios, locations and notes already found these candidates:
+
+${
+  candidates.length > 0
+    ? candidates.map((x) => followToMarkdown(x)).join("\n")
+    : "(no direct matches)"
+}
+
+Steps:
+1. Search again with searchContacts using synonyms and related problems, and use getFollows filters (tags, location, has_link, custom fields) to widen or narrow the set.
+2. Read bios and notes and decide who plausibly needs this. Skip weak matches.
+3. Return a ranked shortlist with one line per person explaining why.
+4. Offer to tag the shortlist with updateBulk, or to set follow-ups.`,
+        {
+          headers: { "Content-Type": "text/plain;charset=utf8" },
+        }
+      );
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // MCP prompt: propose and apply tags for untagged follows
+  if (url.pathname === "/prompts/tag-untagged" && request.method === "GET") {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    const limit = Math.min(
+      parseInt(url.searchParams.get("limit") || "30", 10) || 30,
+      100
+    );
+
+    try {
+      const userDO = getUserDO();
+      const { follows, total } = await userDO.getFollows({
+        untagged: true,
+        limit,
+      });
+      const tags = await userDO.getUniqueTags();
+
+      return new Response(
+        `Tag my untagged follows in my X CRM. ${total} contacts have no tags yet; here are ${follows.length} of them:
+
+${follows.map((x) => followToMarkdown(x)).join("\n")}
+
+Existing tags: ${
+          tags.map((t) => `${t.tag} (${t.count})`).join(", ") || "none yet"
+        }
+
+Steps:
+1. Propose 1-3 tags per contact based on their bio and note. Prefer existing tags; only introduce a new tag when several contacts share it.
+2. Show the proposal as a table and wait for my confirmation or corrections.
+3. Apply it with a single updateBulk call. It can be rolled back with undoLastBatch.
+4. If more untagged contacts remain, offer to continue with getFollows (untagged=true, offset).`,
+        {
+          headers: { "Content-Type": "text/plain;charset=utf8" },
+        }
+      );
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Due follow-ups endpoint
+  if (url.pathname === "/follow-ups/due" && request.method === "GET") {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    try {
+      const userDO = getUserDO();
+      const withinDays =
+        parseInt(url.searchParams.get("within_days") || "0", 10) || 0;
+      const followUps = await userDO.getDueFollowUps(withinDays);
+
+      return new Response(JSON.stringify({ followUps }), {
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Complete follow-up endpoint
+  if (
+    url.pathname.startsWith("/contact/") &&
+    url.pathname.endsWith("/follow-up/complete") &&
+    request.method === "POST"
+  ) {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    const username = decodeURIComponent(
+      url.pathname.slice(
+        "/contact/".length,
+        -"/follow-up/complete".length
+      )
+    );
+
+    try {
+      const userDO = getUserDO();
+      const result = await userDO.completeFollowUp(username);
+
+      return new Response(JSON.stringify(result), {
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Change history of a contact's note and tags
+  if (
+    url.pathname.startsWith("/contact/") &&
+    url.pathname.endsWith("/history") &&
+    request.method === "GET"
+  ) {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    const username = decodeURIComponent(
+      url.pathname.slice("/contact/".length, -"/history".length)
+    );
+    const limit = Math.min(
+      parseInt(url.searchParams.get("limit") || "50", 10) || 50,
+      500
+    );
+
+    try {
+      const userDO = getUserDO();
+      const result = await userDO.getHistory(username, limit);
+
+      return new Response(JSON.stringify(result), {
+        status: result.error ? 404 : 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Undo the most recent batch of note and tag changes
+  if (url.pathname === "/history/undo" && request.method === "POST") {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    try {
+      const userDO = getUserDO();
+      const result = await userDO.undoLastBatch(changeSource(request));
+
+      return new Response(JSON.stringify(result), {
+        status: result.error ? 404 : 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Revert a single change
+  if (
+    url.pathname.startsWith("/history/") &&
+    url.pathname.endsWith("/revert") &&
+    request.method === "POST"
+  ) {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    const id = parseInt(
+      url.pathname.slice("/history/".length, -"/revert".length),
+      10
+    );
+    if (!Number.isInteger(id)) {
+      return new Response(
+        JSON.stringify({ error: "Change id must be a number" }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    try {
+      const userDO = getUserDO();
+      const result = await userDO.revertChange(id, changeSource(request));
+
+      return new Response(JSON.stringify(result), {
+        status: result.error ? 404 : result.conflicts.length ? 409 : 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Interactions endpoint
+  if (
+    url.pathname.startsWith("/contact/") &&
+    url.pathname.endsWith("/interactions")
+  ) {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    const username = decodeURIComponent(
+      url.pathname.slice("/contact/".length, -"/interactions".length)
+    );
+
+    if (!username) {
+      return new Response(
+        JSON.stringify({ error: "Username required" }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    try {
+      const userDO = getUserDO();
+
+      if (request.method === "GET") {
+        const result = await userDO.getInteractions(username);
+
+        if (!result) {
+          return new Response(
+            JSON.stringify({ error: `Username '${username}' not found` }),
+            {
+              status: 404,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        return new Response(JSON.stringify(result), {
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      if (request.method === "POST") {
+        const type = url.searchParams.get("type");
+        const occurredAt = url.searchParams.get("occurred_at");
+
+        if (!INTERACTION_TYPES.includes(type)) {
+          return new Response(
+            JSON.stringify({
+              error: `Type must be one of: ${INTERACTION_TYPES.join(", ")}`,
+            }),
+            {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        if (occurredAt && isNaN(new Date(occurredAt).getTime())) {
+          return new Response(
+            JSON.stringify({ error: "'occurred_at' must be a date" }),
+            {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        const result = await userDO.addInteraction(
+          username,
+          type,
+          url.searchParams.get("text") || undefined,
+          url.searchParams.get("link") || undefined,
+          occurredAt ? new Date(occurredAt).toISOString() : undefined
+        );
+
+        return new Response(JSON.stringify(result), {
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Get one contact, as JSON or as a detail page for browsers
+  if (
+    url.pathname.startsWith("/contact/") &&
+    !url.pathname.slice("/contact/".length).includes("/") &&
+    request.method === "GET"
+  ) {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    const username = decodeURIComponent(
+      url.pathname.split("/contact/")[1] || ""
+    ).replace(/^@/, "");
+    const isHtml = request.headers.get("accept")?.includes("text/html");
+
+    try {
+      const userDO = getUserDO();
+      const details = await userDO.getContact(username);
+
+      if (!details) {
+        const error = `Username '${username}' not found`;
+        return isHtml
+          ? new Response(escapeHtml(error), {
+              status: 404,
+              headers: { "Content-Type": "text/html;charset=utf8" },
+            })
+          : new Response(JSON.stringify({ error }), {
+              status: 404,
+              headers: { "Content-Type": "application/json" },
+            });
+      }
+
+      const { contact } = details;
+      const renamed =
+        (contact.username as string).toLowerCase() !== username.toLowerCase();
+
+      if (!isHtml) {
+        const merged = await withWorkspace(
+          url.searchParams.get("workspace"),
+          [contact]
+        );
+        if ("error" in merged) {
+          return new Response(JSON.stringify({ error: merged.error }), {
+            status: merged.status,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+
+        return new Response(
+          JSON.stringify({
+            ...details,
+            contact: merged.contacts[0],
+            ...(renamed ? { renamedFrom: username } : {}),
+          }),
+          {
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      // Old handles redirect to the current one
+      if (renamed) {
+        return new Response(null, {
+          status: 302,
+          headers: {
+            Location: `/contact/${encodeURIComponent(
+              contact.username as string
+            )}`,
+          },
+        });
+      }
+
+      const { changes } = await userDO.getHistory(username, 20);
+      const customFields = Object.entries(
+        (contact.custom_fields as Record<string, string>) || {}
+      );
+      const links = (contact.links as ContactLink[]) || [];
+
+      return new Response(
+        `
+        <html>
+          <head>
+            <title>@${escapeHtml(contact.username)} - X CRM</title>
+            <style>
+              body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; margin: 20px; max-width: 900px; }
+              .header { display: flex; gap: 16px; align-items: center; margin-bottom: 20px; padding-bottom: 20px; border-bottom: 1px solid #eee; }
+              .header img { width: 72px; height: 72px; border-radius: 50%; }
+              .header h1 { margin: 0; }
+              .muted { color: #666; font-size: 13px; }
+              table { border-collapse: collapse; width: 100%; margin-bottom: 20px; }
+              th, td { padding: 8px; border-bottom: 1px solid #eee; text-align: left; vertical-align: top; font-size: 14px; }
+              th { width: 180px; background: #f8f9fa; }
+              .note { white-space: pre-wrap; background: #fff3cd; padding: 8px; border-radius: 4px; }
+              .tag { background: #e3f2fd; padding: 2px 6px; border-radius: 12px; font-size: 12px; margin-right: 4px; }
+              .edit { border: none; background: none; cursor: pointer; color: #666; }
+              .editor textarea { width: 100%; min-height: 100px; }
+              .editor input { width: 60%; }
+              .archived { background: #f8d7da; padding: 2px 6px; border-radius: 4px; font-size: 12px; }
+              .reverted { text-decoration: line-through; color: #999; }
+            </style>
+          </head>
+          <body>
+            <p><a href="/">Back to contacts</a></p>
+            <div class="header">
+              <img src="${escapeHtml(
+                contact.profile_image_url
+              )}" onerror="this.style.display='none'">
+              <div>
+                <h1>${escapeHtml(contact.name)}</h1>
+                ${
+                  contact.source === "manual"
+                    ? `@${escapeHtml(contact.username)}`
+                    : `<a href="https://x.com/${escapeHtml(
+                        contact.username
+                      )}" target="_blank">@${escapeHtml(contact.username)}</a>`
+                }
+                ${contact.archived_at ? `<span class="archived">archived</span>` : ""}
+                <p>${escapeHtml(contact.description)}</p>
+                <div class="muted">${escapeHtml(contact.relationship)}${
+                  contact.source !== "sync"
+                    ? ` (added by ${contact.source === "manual" ? "hand" : "lookup"})`
+                    : ""
+                } · ${
+                  contact.followers_count?.toLocaleString() || 0
+                } followers · ${
+                  contact.following_count?.toLocaleString() || 0
+                } following${
+                  contact.location ? ` · ${escapeHtml(contact.location)}` : ""
+                }</div>
+              </div>
+            </div>
+
+            <table>
+              <tr data-username="${escapeHtml(
+                contact.username
+              )}" data-note="${escapeHtml(contact.note)}" data-tags="${escapeHtml(
+                contact.tags
+              )}">
+                <th>Note</th>
+                <td>${
+                  contact.note
+                    ? `<div class="note">${escapeHtml(contact.note)}</div>`
+                    : ""
+                } <button class="edit" title="Edit note" onclick="editField(this, 'note')">✎</button></td>
+              </tr>
+              <tr data-username="${escapeHtml(
+                contact.username
+              )}" data-note="${escapeHtml(contact.note)}" data-tags="${escapeHtml(
+                contact.tags
+              )}">
+                <th>Tags</th>
+                <td>${((contact.tags as string) || "")
+                  .split(",")
+                  .map((tag) => tag.trim())
+                  .filter(Boolean)
+                  .map(
+                    (tag) =>
+                      `<a class="tag" href="/?tag=${encodeURIComponent(
+                        tag
+                      )}">${escapeHtml(tag)}</a>`
+                  )
+                  .join("")} <button class="edit" title="Edit tags" onclick="editField(this, 'tags')">✎</button></td>
+              </tr>
+              ${customFields
+                .map(
+                  ([name, value]) =>
+                    `<tr><th>${escapeHtml(name)}</th><td>${escapeHtml(
+                      value
+                    )}</td></tr>`
+                )
+                .join("")}
+              ${
+                links.length
+                  ? `<tr><th>Links</th><td>${links
+                      .map(
+                        (link) =>
+                          `${LINK_ICONS[link.type]} <a href="${escapeHtml(
+                            link.url
+                          )}" target="_blank">${escapeHtml(link.label)}</a>`
+                      )
+                      .join("<br>")}</td></tr>`
+                  : ""
+              }
+              ${
+                contact.follow_up_at
+                  ? `<tr><th>Follow-up</th><td>${escapeHtml(
+                      (contact.follow_up_at as string).slice(0, 10)
+                    )} (${escapeHtml(contact.follow_up_status)})${
+                      contact.follow_up_reason
+                        ? `: ${escapeHtml(contact.follow_up_reason)}`
+                        : ""
+                    }</td></tr>`
+                  : ""
+              }
+              ${details.stages
+                .map(
+                  (s) =>
+                    `<tr><th><a href="/pipeline/${encodeURIComponent(
+                      s.pipeline
+                    )}">${escapeHtml(s.pipeline)}</a></th><td>${escapeHtml(
+                      s.stage
+                    )} <span class="muted">since ${escapeHtml(
+                      s.entered_at.slice(0, 10)
+                    )}</span></td></tr>`
+                )
+                .join("")}
+              ${
+                details.previous_usernames.length
+                  ? `<tr><th>Previous usernames</th><td>${details.previous_usernames
+                      .map((name) => `@${escapeHtml(name)}`)
+                      .join(", ")}</td></tr>`
+                  : ""
+              }
+              <tr><th>Joined X</th><td>${escapeHtml(
+                contact.created_at ? new Date(contact.created_at as string).toLocaleDateString() : ""
+              )}</td></tr>
+              <tr><th>Last synced</th><td>${escapeHtml(contact.synced_at)}${
+                contact.archived_at
+                  ? ` <span class="muted">(archived ${escapeHtml(contact.archived_at)})</span>`
+                  : ""
+              }</td></tr>
+            </table>
+
+            <h2>Interactions</h2>
+            ${
+              details.interactions.length
+                ? `<table>${details.interactions
+                    .map(
+                      (i) =>
+                        `<tr><th>${escapeHtml(
+                          i.occurred_at.slice(0, 10)
+                        )} ${escapeHtml(i.type)}</th><td>${escapeHtml(i.text)}${
+                          i.link
+                            ? ` <a href="${escapeHtml(i.link)}" target="_blank">link</a>`
+                            : ""
+                        }</td></tr>`
+                    )
+                    .join("")}</table>`
+                : `<p class="muted">None logged.</p>`
+            }
+
+            <h2>Changes</h2>
+            ${
+              changes.length
+                ? `<table>${changes
+                    .map(
+                      (c) =>
+                        `<tr class="${c.reverted_at ? "reverted" : ""}"><th>${escapeHtml(
+                          c.created_at
+                        )}<div class="muted">${escapeHtml(
+                          c.operation
+                        )} via ${escapeHtml(c.source)}</div></th><td>${escapeHtml(
+                          c.field
+                        )}: ${escapeHtml(c.old_value) || "<i>empty</i>"} → ${
+                          escapeHtml(c.new_value) || "<i>empty</i>"
+                        }</td></tr>`
+                    )
+                    .join("")}</table>`
+                : `<p class="muted">No changes yet.</p>`
+            }
+
+            <script>${EDITOR_SCRIPT}</script>
+          </body>
+        </html>
+      `,
+        {
+          headers: { "Content-Type": "text/html;charset=utf8" },
+        }
+      );
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
+
+  // Update contact endpoint
+  if (url.pathname.startsWith("/contact/") && request.method === "POST") {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
+
+    const username = decodeURIComponent(
+      url.pathname.split("/contact/")[1] || ""
+    );
+    // Only pass what was provided, so updating tags keeps the note and vice versa
+    const update: ContactUpdate = {
+      note: url.searchParams.get("note") ?? undefined,
+      tags: url.searchParams.get("tags") ?? undefined,
+      follow_up_at: url.searchParams.get("follow_up_at") ?? undefined,
+      follow_up_reason:
+        url.searchParams.get("follow_up_reason") ?? undefined,
+    };
+
+    const fields = url.searchParams.get("fields");
+    if (fields) {
+      try {
+        update.fields = JSON.parse(fields);
+      } catch {
+        update.fields = null;
+      }
+      if (
+        !update.fields ||
+        typeof update.fields !== "object" ||
+        Array.isArray(update.fields)
+      ) {
+        return new Response(
+          JSON.stringify({
+            error: `'fields' must be a JSON object, e.g. {"email":"jane@example.com"}`,
+          }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    if (!username) {
+      return new Response(
+        JSON.stringify({ error: "Username required" }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
     }
 
-    // Clear existing follows
-    this.sql.exec("DELETE FROM follows");
-    console.log("Cleared existing follows");
-    let follows = [];
-    let totalFollows = 0;
-    let cursor = null;
-    let pageCount = 0;
-    let data = undefined;
-    do {
-      pageCount++;
-      const url = cursor
-        ? `https://api.twitterapi.io/twitter/user/followings?userName=${username}&cursor=${cursor}`
-        : `https://api.twitterapi.io/twitter/user/followings?userName=${username}`;
+    if (
+      update.follow_up_at &&
+      isNaN(new Date(update.follow_up_at).getTime())
+    ) {
+      return new Response(
+        JSON.stringify({
+          error: "'follow_up_at' must be a date, e.g. 2025-10-31",
+        }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
 
-      console.log(`Fetching page ${pageCount}, cursor: ${cursor || "initial"}`);
+    try {
+      const userDO = getUserDO();
+      const result = await userDO.updateContact(
+        username,
+        update,
+        changeSource(request)
+      );
 
-      const response = await fetch(url, {
-        headers: {
-          "X-API-Key": this.env.TWITTER_API_KEY,
-        },
+      return new Response(JSON.stringify(result), {
+        headers: { "Content-Type": "application/json" },
       });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
 
-      if (!response.ok) {
-        console.error(`API request failed with status ${response.status}`);
-        throw new Error(`Failed to fetch follows: ${response.status}`);
-      }
-
-      data = await response.json();
-      follows = data.followings || [];
+  // Add a contact the user doesn't follow, by X username or by hand
+  if (
+    (url.pathname === "/contacts" || url.pathname === "/contacts/manual") &&
+    request.method === "POST"
+  ) {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
 
-      console.log(
-        `Page ${pageCount}: Got ${follows.length} follows, has_next_page: ${data.has_next_page}, next_cursor: ${data.next_cursor}`
+    const manual = url.pathname === "/contacts/manual";
+    const username = url.searchParams.get("username");
+    const name = url.searchParams.get("name");
+    if (manual ? !name?.trim() : !username?.trim()) {
+      return new Response(
+        JSON.stringify({ error: manual ? "Name required" : "Username required" }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
       );
+    }
 
-      // Insert follows from this page
-      for (const follow of follows) {
-        const existing = existingMap.get(follow.userName);
-        this.sql.exec(
-          `INSERT OR REPLACE INTO follows 
-           (user_id, username, name, profile_image_url, description, 
-            followers_count, following_count, verified_type, is_blue_verified, 
-            location, created_at, note, tags) 
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-          follow.id,
-          follow.userName,
-          follow.name,
-          follow.profile_image_url_https,
-          follow.description,
-          follow.followers_count,
-          follow.following_count,
-          follow.verifiedType,
-          follow.verified ? 1 : 0,
-          follow.location,
-          follow.createdAt,
-          existing?.note || null,
-          existing?.tags || null
-        );
-      }
-
-      totalFollows += follows.length;
-      cursor = data.next_cursor;
+    const update: ContactUpdate = {
+      note: url.searchParams.get("note") ?? undefined,
+      tags: url.searchParams.get("tags") ?? undefined,
+      follow_up_at: url.searchParams.get("follow_up_at") ?? undefined,
+      follow_up_reason:
+        url.searchParams.get("follow_up_reason") ?? undefined,
+    };
+    if (
+      update.follow_up_at &&
+      isNaN(new Date(update.follow_up_at).getTime())
+    ) {
+      return new Response(
+        JSON.stringify({
+          error: "'follow_up_at' must be a date, e.g. 2025-10-31",
+        }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
 
-      // Continue if we have more pages and got 200 results (indicating there might be more)
-      // Also continue if has_next_page is true
-    } while ((follows.length >= 200 || data.has_next_page) && cursor);
+    try {
+      const userDO = getUserDO();
+      const result = manual
+        ? await userDO.addManualContact(
+            {
+              name,
+              description: url.searchParams.get("description") || undefined,
+              location: url.searchParams.get("location") || undefined,
+            },
+            update,
+            changeSource(request)
+          )
+        : await userDO.addContact(username, update, changeSource(request));
 
-    console.log(
-      `Sync completed: ${totalFollows} total follows across ${pageCount} pages`
-    );
-    return { synced: totalFollows, pages: pageCount };
+      return new Response(JSON.stringify(result), {
+        // Without added, either the user doesn't exist on X or is already a contact
+        status: result.added ? 200 : result.username ? 409 : 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: error instanceof TwitterApiError ? 502 : 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
   }
 
-  async getFollows(tag?: string) {
-    await this.initSchema();
-    let query = `
-      SELECT user_id, username, name, profile_image_url, description,
-             followers_count, following_count, verified_type, is_blue_verified,
-             location, created_at, note, tags, synced_at
-      FROM follows 
-    `;
-
-    const params = [];
-    if (tag) {
-      query += ` WHERE tags LIKE ?`;
-      params.push(`%${tag}%`);
+  // Bulk update endpoint
+  if (url.pathname === "/contacts/bulk" && request.method === "POST") {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
     }
 
-    query += ` ORDER BY followers_count DESC`;
+    try {
+      const body = await request.json();
 
-    const result = this.sql.exec(query, ...params);
-    return result.toArray();
-  }
+      if (!Array.isArray(body.updates)) {
+        return new Response(
+          JSON.stringify({
+            error: "Request body must contain 'updates' array",
+          }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
 
-  async updateContact(username: string, note?: string, tags?: string) {
-    await this.initSchema();
-    const updates = [];
-    const params = [];
+      const userDO = getUserDO();
+      const result = await userDO.updateBulk(
+        body.updates,
+        changeSource(request)
+      );
 
-    if (note !== undefined) {
-      updates.push("note = ?");
-      params.push(note);
+      return new Response(JSON.stringify(result), {
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
     }
+  }
 
-    if (tags !== undefined) {
-      updates.push("tags = ?");
-      params.push(tags);
+  // Export endpoint: csv, json backup or vCard, with the getFollows filters
+  if (url.pathname === "/export" && request.method === "GET") {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
     }
 
-    if (updates.length === 0) {
-      return { updated: false, error: "No updates provided" };
+    const format = url.searchParams.get("format") || "json";
+    if (!EXPORT_FORMATS.includes(format)) {
+      return new Response(
+        JSON.stringify({
+          error: `'format' must be one of: ${EXPORT_FORMATS.join(", ")}`,
+        }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
     }
 
-    params.push(username);
+    const parsed = parseFollowsQuery(url.searchParams);
+    if (parsed.error) {
+      return new Response(JSON.stringify({ error: parsed.error }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    const { query } = parsed as { query: FollowsQuery };
 
-    const result = this.sql.exec(
-      `UPDATE follows SET ${updates.join(", ")} WHERE username = ?`,
-      ...params
-    );
-    return { updated: result.rowsWritten > 0 };
-  }
+    try {
+      const userDO = getUserDO();
+      const { follows } = await userDO.getFollows({
+        ...query,
+        fields: undefined,
+      });
+      const customFields = await userDO.listFields();
 
-  async updateBulk(
-    updates: Array<{ username: string; tags: string; note?: string }>
-  ) {
-    await this.initSchema();
+      const filename = `x-crm-${ctx.user?.username || "export"}${
+        query.tag ? `-${query.tag.replace(/[^\w-]+/g, "-")}` : ""
+      }-${new Date().toISOString().slice(0, 10)}.${format}`;
 
-    let successCount = 0;
-    let errorCount = 0;
-    const errors = [];
+      const body =
+        format === "csv"
+          ? followsToCsv(follows, customFields)
+          : format === "vcf"
+          ? follows.map(followToVCard).join("\r\n") + "\r\n"
+          : JSON.stringify(
+              {
+                exported_at: new Date().toISOString(),
+                username: ctx.user?.username,
+                customFields,
+                contacts: follows,
+              },
+              undefined,
+              2
+            );
 
-    for (const update of updates) {
-      try {
-        const updateFields = [];
-        const params = [];
+      return new Response(body, {
+        headers: {
+          "Content-Type":
+            format === "csv"
+              ? "text/csv; charset=utf-8"
+              : format === "vcf"
+              ? "text/vcard; charset=utf-8"
+              : "application/json",
+          "Content-Disposition": `attachment; filename="${filename}"`,
+        },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
 
-        updateFields.push("tags = ?");
-        params.push(update.tags);
+  // Import endpoint: csv or json (an array of contacts or a json export)
+  if (url.pathname === "/import" && request.method === "POST") {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
 
-        if (update.note !== undefined) {
-          updateFields.push("note = ?");
-          params.push(update.note);
+    const mode = url.searchParams.get("mode") || "fill-empty";
+    if (!IMPORT_MODES.includes(mode)) {
+      return new Response(
+        JSON.stringify({
+          error: `'mode' must be one of: ${IMPORT_MODES.join(", ")}`,
+        }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
         }
+      );
+    }
 
-        params.push(update.username);
+    try {
+      const userDO = getUserDO();
+      const text = await request.text();
+      const isCsv =
+        url.searchParams.get("format") === "csv" ||
+        (request.headers.get("content-type") || "").includes("csv");
 
-        const result = this.sql.exec(
-          `UPDATE follows SET ${updateFields.join(", ")} WHERE username = ?`,
-          ...params
+      let records: Record<string, any>[];
+      let backupFields: CustomField[] = [];
+      if (isCsv) {
+        const [header = [], ...lines] = parseCsv(text);
+        const columns = header.map((column) => column.trim());
+        records = lines.map((cells) =>
+          Object.fromEntries(
+            columns.map((column, i) => [column, cells[i] ?? ""])
+          )
         );
-
-        if (result.rowsWritten > 0) {
-          successCount++;
-        } else {
-          errorCount++;
-          errors.push(`Username '${update.username}' not found`);
-        }
-      } catch (error) {
-        errorCount++;
-        errors.push(`Error updating '${update.username}': ${error.message}`);
+      } else {
+        const body = JSON.parse(text);
+        records = Array.isArray(body)
+          ? body
+          : body.contacts || body.follows || body.updates;
+        backupFields = Array.isArray(body.customFields)
+          ? body.customFields
+          : [];
       }
-    }
 
-    return {
-      success: successCount,
-      errors: errorCount,
-      errorDetails: errors,
-    };
-  }
+      if (!Array.isArray(records)) {
+        return new Response(
+          JSON.stringify({
+            error:
+              "Body must be csv with a header row, a json array of contacts or an object with a 'contacts' array",
+          }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
 
-  async removeTag(tagToRemove: string) {
-    await this.initSchema();
+      // A json backup brings its custom field definitions along
+      let customFields = await userDO.listFields();
+      const fieldsDefined = [];
+      for (const field of backupFields) {
+        if (
+          FIELD_TYPES.includes(field.type) &&
+          !customFields.some(
+            (f) => f.name.toLowerCase() === field.name.toLowerCase()
+          )
+        ) {
+          await userDO.defineField(
+            field.name,
+            field.type,
+            field.options || undefined
+          );
+          fieldsDefined.push(field.name);
+        }
+      }
+      if (fieldsDefined.length > 0) {
+        customFields = await userDO.listFields();
+      }
 
-    // Get all follows with tags
-    const result = this.sql.exec(
-      `
-      SELECT username, tags FROM follows 
-      WHERE tags IS NOT NULL AND tags != '' AND tags LIKE ?
-    `,
-      `%${tagToRemove}%`
-    );
+      const rows = records.map((record) => toImportRow(record, customFields));
+      const result = await userDO.importContacts(
+        rows,
+        mode,
+        changeSource(request)
+      );
 
-    const followsWithTag = result.toArray();
-    let updatedCount = 0;
+      return new Response(
+        JSON.stringify({ mode, ...result, fieldsDefined }),
+        {
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: error instanceof SyntaxError ? 400 : 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
 
-    for (const follow of followsWithTag) {
-      if (follow.tags) {
-        // Split tags, remove the target tag (case insensitive), and rejoin
-        const currentTags = (follow.tags as string)
-          .split(",")
-          .map((tag) => tag.trim())
-          .filter((tag) => tag.toLowerCase() !== tagToRemove.toLowerCase());
+  // Merge tags endpoint
+  if (url.pathname === "/tags/merge" && request.method === "POST") {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
 
-        const newTags = currentTags.length > 0 ? currentTags.join(", ") : null;
+    try {
+      const body: any = await request.json();
 
-        // Update the follow with new tags
-        const updateResult = this.sql.exec(
-          `UPDATE follows SET tags = ? WHERE username = ?`,
-          newTags,
-          follow.username
+      if (!Array.isArray(body.tags) || !body.into) {
+        return new Response(
+          JSON.stringify({
+            error: "Request body must contain 'tags' array and 'into'",
+          }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
         );
-
-        if (updateResult.rowsWritten > 0) {
-          updatedCount++;
-        }
       }
-    }
 
-    return {
-      removed: updatedCount,
-      tag: tagToRemove,
-    };
-  }
+      const userDO = getUserDO();
+      const result = await userDO.mergeTags(
+        body.tags,
+        body.into,
+        changeSource(request)
+      );
 
-  async getUniqueTags(): Promise<string[]> {
-    await this.initSchema();
-    const result = this.sql.exec(`
-      SELECT DISTINCT tags FROM follows 
-      WHERE tags IS NOT NULL AND tags != ''
-    `);
+      return new Response(JSON.stringify(result), {
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
 
-    const allTags = new Set<string>();
-    for (const row of result.toArray()) {
-      if (row.tags) {
-        const tags = (row.tags as string).split(",").map((t) => t.trim());
-        tags.forEach((tag) => allTags.add(tag));
-      }
+  // Rename tag endpoint
+  if (
+    url.pathname.startsWith("/tags/") &&
+    url.pathname.endsWith("/rename") &&
+    request.method === "POST"
+  ) {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
     }
 
-    return Array.from(allTags).sort();
-  }
-}
+    const tag = decodeURIComponent(
+      url.pathname.slice("/tags/".length, -"/rename".length)
+    );
+    const to = url.searchParams.get("to");
 
-export default {
-  fetch: withMcp(
-    withSimplerAuth(
-      async (request: Request, env: Env, ctx: UserContext) => {
-        const url = new URL(request.url);
-
-        // Ensure required env vars
-        if (!env.TWITTER_API_KEY) {
-          return new Response("TWITTER_API_KEY not configured", {
-            status: 500,
-          });
+    if (!tag || !to) {
+      return new Response(
+        JSON.stringify({ error: "Tag and 'to' required" }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
         }
+      );
+    }
 
-        // Get user's Durable Object
-        const getUserDO = () => {
-          if (!ctx.user?.id) {
-            throw new Error("User not authenticated");
-          }
-          return env.CRMDURABLEOBJECT.get(
-            env.CRMDURABLEOBJECT.idFromName(ctx.user.id)
-          );
-        };
+    try {
+      const userDO = getUserDO();
+      const result = await userDO.renameTag(tag, to, changeSource(request));
 
-        // Sync follows endpoint
-        if (url.pathname === "/sync") {
-          if (!ctx.authenticated) {
-            return new Response("Authentication required", { status: 401 });
-          }
+      return new Response(JSON.stringify(result), {
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
 
-          try {
-            const userDO = getUserDO();
+  // Remove tag endpoint
+  if (url.pathname.startsWith("/tags/") && request.method === "DELETE") {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
 
-            // Check if sync is allowed
-            const lastSync = await userDO.getLastSyncTime();
-            const now = new Date();
-            const twentyFourHoursAgo = new Date(
-              now.getTime() - 24 * 60 * 60 * 1000
-            );
+    const tag = decodeURIComponent(url.pathname.split("/tags/")[1]);
 
-            // Allow sync if no previous sync, last sync was >24h ago, or user is janwilmake
-            const canSync =
-              !lastSync ||
-              lastSync < twentyFourHoursAgo ||
-              ctx.user?.username === "janwilmake";
-
-            if (!canSync) {
-              const hoursUntilNextSync = Math.ceil(
-                (lastSync.getTime() + 24 * 60 * 60 * 1000 - now.getTime()) /
-                  (60 * 60 * 1000)
-              );
-              return new Response(
-                JSON.stringify({
-                  error: `Sync limited to once per 24 hours. Next sync available in ${hoursUntilNextSync} hours.`,
-                  lastSync: lastSync.toISOString(),
-                }),
-                {
-                  status: 429,
-                  headers: { "Content-Type": "application/json" },
-                }
-              );
-            }
+    if (!tag) {
+      return new Response(JSON.stringify({ error: "Tag required" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
 
-            const result = await userDO.syncFollows(ctx.user?.username);
+    try {
+      const userDO = getUserDO();
+      const result = await userDO.removeTag(tag, changeSource(request));
 
-            return new Response(JSON.stringify(result), {
-              headers: { "Content-Type": "application/json" },
-            });
-          } catch (error) {
-            console.error("Sync error:", error);
-            return new Response(JSON.stringify({ error: error.message }), {
-              status: 500,
-              headers: { "Content-Type": "application/json" },
-            });
-          }
-        }
+      return new Response(JSON.stringify(result), {
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  }
 
-        // Get follows endpoint
-        if (url.pathname === "/follows" && request.method === "GET") {
-          if (!ctx.authenticated) {
-            return new Response("Authentication required", { status: 401 });
-          }
+  // Auth check endpoint for MCP
+  if (url.pathname === "/me" && request.method === "GET") {
+    if (!ctx.authenticated) {
+      return new Response("Authentication required", { status: 401 });
+    }
 
-          try {
-            const userDO = getUserDO();
-            const tag = url.searchParams.get("tag");
-            const follows = await userDO.getFollows(tag || undefined);
-            const uniqueTags = await userDO.getUniqueTags();
-
-            // If JSON requested
-            if (request.headers.get("accept") === "application/json") {
-              return new Response(JSON.stringify({ follows, uniqueTags }), {
-                headers: { "Content-Type": "application/json" },
-              });
-            }
+    return new Response(
+      JSON.stringify({
+        user: ctx.user,
+        authenticated: true,
+      }),
+      {
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
 
-            // Return markdown format
-            let output = "";
+  // Main page with HTML table view
+  if (url.pathname === "/" && ctx.authenticated) {
+    try {
+      const userDO = getUserDO();
+      const tag = url.searchParams.get("tag");
+      const relationship = RELATIONSHIPS.includes(
+        url.searchParams.get("relationship")
+      )
+        ? url.searchParams.get("relationship")
+        : null;
+      const q = url.searchParams.get("q")?.trim() || null;
+      const hasLink = LINK_TYPES.includes(url.searchParams.get("has_link"))
+        ? url.searchParams.get("has_link")
+        : null;
+      const follows: Follow[] = q
+        ? await userDO.searchContacts(
+            q,
+            200,
+            tag || undefined,
+            relationship || undefined
+          )
+        : (
+            await userDO.getFollows({
+              tag: tag || undefined,
+              relationship: relationship || undefined,
+              has_link: hasLink || undefined,
+            })
+          ).follows;
+      const customFields = await userDO.listFields();
+      const dueFollowUps = await userDO.getDueFollowUps();
+      const uniqueTags = await userDO.getUniqueTags();
+      const pipelines = await userDO.listPipelines();
+      const followerSeries = await userDO.getFollowerSeries(90);
+      const webhookDeliveries = await userDO.getWebhookDeliveries(10);
 
-            if (uniqueTags.length > 0) {
-              output += `**Tags:** ${uniqueTags.join(", ")}\n\n`;
-            }
+      // Builds a filter link that keeps the other active filters
+      const filterHref = (filters: {
+        tag?: string | null;
+        relationship?: string | null;
+        has_link?: string | null;
+      }) => {
+        const params = new URLSearchParams();
+        const nextTag = "tag" in filters ? filters.tag : tag;
+        const nextRelationship =
+          "relationship" in filters ? filters.relationship : relationship;
+        const nextHasLink = "has_link" in filters ? filters.has_link : hasLink;
+        if (q) params.set("q", q);
+        if (nextTag) params.set("tag", nextTag);
+        if (nextRelationship) params.set("relationship", nextRelationship);
+        if (nextHasLink && !q) params.set("has_link", nextHasLink);
+        const query = params.toString();
+        return query ? `/?${query}` : "/";
+      };
 
-            output += follows
-              .map(
-                (x) =>
-                  `- @${x.username} (${x.name}) ${x.location || ""} ${
-                    x.tags ? `[${x.tags}] ` : ""
-                  }${
-                    x.note
-                      ? `NOTE: ${x.note}`
-                      : x.description
-                      ? `*${x.description}*`
-                      : ""
-                  }`
-              )
-              .join("\n");
+      // Export links keep the tag, relationship and link filters
+      const exportHref = (format: string) => {
+        const params = new URLSearchParams({ format });
+        if (tag) params.set("tag", tag);
+        if (relationship) params.set("relationship", relationship);
+        if (hasLink) params.set("has_link", hasLink);
+        return `/export?${params.toString()}`;
+      };
 
-            return new Response(output);
-          } catch (error) {
-            return new Response(JSON.stringify({ error: error.message }), {
-              status: 500,
-              headers: { "Content-Type": "application/json" },
-            });
-          }
+      const getSyncStatus = async () => {
+        try {
+          return await userDO.getSyncStatus(ctx.user?.username);
+        } catch (error) {
+          console.error("Error getting sync status:", error);
+          return null;
         }
+      };
 
-        // Update contact endpoint
-        if (url.pathname.startsWith("/contact/") && request.method === "POST") {
-          if (!ctx.authenticated) {
-            return new Response("Authentication required", { status: 401 });
-          }
-
-          const username = url.pathname.split("/contact/")[1];
-          const note = url.searchParams.get("note");
-          const tags = url.searchParams.get("tags");
+      const job = await getSyncStatus();
 
-          if (!username) {
-            return new Response(
-              JSON.stringify({ error: "Username required" }),
-              {
-                status: 400,
-                headers: { "Content-Type": "application/json" },
-              }
-            );
-          }
+      // Page limit and X API usage of the last 30 days
+      const renderQuota = () => {
+        const quota = job?.quota;
+        if (!quota) return "";
+        const pages =
+          quota.max_pages === null
+            ? ""
+            : `${quota.pages_remaining} of ${quota.max_pages} pages left for ${
+                job.state === "running" || job.state === "backoff"
+                  ? "this"
+                  : "the next"
+              } sync · `;
+        return `<p class="quota">${pages}Last 30 days: ${quota.usage_30d.syncs} syncs, ${quota.usage_30d.pages} pages, ${quota.usage_30d.api_calls} API calls${
+          quota.admin ? " · admin, no cooldown" : ""
+        }</p>`;
+      };
 
-          try {
-            const userDO = getUserDO();
-            const result = await userDO.updateContact(username, note, tags);
+      const renderSyncStatus = () => {
+        const progress = `${job?.pages} pages done, ${job?.contacts} contacts so far`;
 
-            return new Response(JSON.stringify(result), {
-              headers: { "Content-Type": "application/json" },
-            });
-          } catch (error) {
-            return new Response(JSON.stringify({ error: error.message }), {
-              status: 500,
-              headers: { "Content-Type": "application/json" },
-            });
-          }
+        if (job?.state === "running") {
+          return `<p>Sync running (${job.phase}): ${progress}. <a href="/">Refresh</a></p>`;
+        }
+        if (job?.state === "backoff") {
+          return `<p>Sync paused after an error (${escapeHtml(
+            job.error
+          )}), retrying at ${new Date(
+            job.next_retry_at as string
+          ).toLocaleTimeString()}: ${progress}.</p>`;
+        }
+        if (job?.state === "failed") {
+          return `<p>Sync failed (${escapeHtml(job.error)}): ${progress}. <a href="/sync">Resume sync</a></p>`;
         }
 
-        // Bulk update endpoint
-        if (url.pathname === "/contacts/bulk" && request.method === "POST") {
-          if (!ctx.authenticated) {
-            return new Response("Authentication required", { status: 401 });
-          }
-
-          try {
-            const body = await request.json();
-
-            if (!Array.isArray(body.updates)) {
-              return new Response(
-                JSON.stringify({
-                  error: "Request body must contain 'updates' array",
-                }),
-                {
-                  status: 400,
-                  headers: { "Content-Type": "application/json" },
-                }
-              );
-            }
+        const lastCompleted =
+          job?.state === "completed"
+            ? `Last sync completed at ${job.completed_at} with ${job.contacts} contacts${
+                job.error ? ` (${escapeHtml(job.error)})` : ""
+              }. `
+            : "";
 
-            const userDO = getUserDO();
-            const result = await userDO.updateBulk(body.updates);
+        return job?.quota.can_sync
+          ? `<p>${lastCompleted}<a href="/sync">Sync Follows &amp; Followers</a></p>`
+          : `<p>${lastCompleted}Sync available ${
+              job?.quota.next_sync_at
+                ? "in " +
+                  Math.ceil(
+                    (new Date(job.quota.next_sync_at).getTime() - Date.now()) /
+                      (60 * 60 * 1000)
+                  ) +
+                  " hours"
+                : "soon"
+            }</p>`;
+      };
 
-            return new Response(JSON.stringify(result), {
-              headers: { "Content-Type": "application/json" },
-            });
-          } catch (error) {
-            return new Response(JSON.stringify({ error: error.message }), {
-              status: 500,
-              headers: { "Content-Type": "application/json" },
-            });
-          }
-        }
+      return new Response(
+        `
+        <html>
+          <head>
+            <title>X CRM</title>
+            <style>
+              body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; margin: 20px; }
+              .header { margin-bottom: 20px; padding-bottom: 20px; border-bottom: 1px solid #eee; }
+              .tags { margin-bottom: 20px; }
+              .tag { 
+                display: inline-block; 
+                background: #f0f0f0; 
+                padding: 4px 8px; 
+                margin: 2px; 
+                border-radius: 4px; 
+                text-decoration: none; 
+                color: #333; 
+                font-size: 12px;
+              }
+              .tag:hover { background: #e0e0e0; }
+              .tag.active { background: #007acc; color: white; }
+              .clear-filter { color: #007acc; text-decoration: none; margin-left: 10px; }
+              table { border-collapse: collapse; width: 100%; }
+              th, td { border: 1px solid #ddd; padding: 8px; text-align: left; }
+              th { background-color: #f2f2f2; }
+              .profile-pic { width: 32px; height: 32px; border-radius: 50%; }
+              .verified { color: #1da1f2; }
+              .blue-verified { color: #007acc; }
+              .stats { font-size: 12px; color: #666; }
+              .note { background: #fff3cd; padding: 4px; border-radius: 4px; font-size: 12px; }
+              .tags-cell { font-size: 12px; }
+              .tags-cell .tag { font-size: 10px; }
+              .relationship { font-size: 11px; color: #666; }
+              .search { margin-bottom: 20px; }
+              .due { margin-bottom: 20px; padding: 10px 16px; background: #fff8e1; border: 1px solid #ffe082; border-radius: 4px; }
+              .due h3 { margin: 0 0 8px 0; }
+              .due li.overdue { color: #c62828; }
+              .quota { font-size: 12px; color: #666; }
+              .webhooks { margin-bottom: 20px; font-size: 12px; }
+              .webhooks summary { cursor: pointer; color: #666; }
+              .webhooks td, .webhooks th { padding: 4px 8px; }
+              .webhooks .failed { color: #c62828; }
+              .webhooks .pending { color: #b26a00; }
+              .follow-up { font-size: 11px; color: #666; margin-top: 4px; }
+              .follow-up.overdue { color: #c62828; font-weight: bold; }
+              .search input[type=search] { width: 400px; padding: 6px; }
+              .growth { color: #2e7d32; }
+              .decline { color: #c62828; }
+              .sparkline { margin-top: 4px; }
+              .links { margin-top: 4px; font-size: 14px; }
+              .links a { text-decoration: none; }
+              .snippet { margin-top: 4px; color: #666; font-style: italic; }
+              .edit { border: none; background: none; cursor: pointer; color: #007acc; font-size: 12px; padding: 0 2px; }
+              .editor textarea { width: 100%; min-height: 60px; font-size: 12px; }
+              .editor input { width: 100%; font-size: 12px; }
+              .bulk { position: sticky; top: 0; z-index: 1; margin-bottom: 10px; padding: 8px 12px; background: #e8f4fc; border: 1px solid #b3d9f2; border-radius: 4px; }
+              .sortable { cursor: pointer; color: #007acc; white-space: nowrap; }
+              .delete-tag { color: #c62828; text-decoration: none; margin-left: 4px; font-size: 12px; }
+            </style>
+          </head>
+          <body>
+            <div class="header">
+              <h1>X CRM</h1>
+              <p>Welcome, ${escapeHtml(
+                ctx.user.name
+              )}! | <a href="/logout">Logout</a></p>
+              <p><a href="/follows">See follows in markdown</a> | <a href="/follows?archived=true">Archived contacts</a> | <a href="/sync/changes">Changes since last sync</a> | <a href="/changes?days=30">Profile changes &amp; growth (30 days)</a></p>
+              <p>Export${
+                tag ? ` contacts tagged <strong>${escapeHtml(tag)}</strong>` : ""
+              }: ${EXPORT_FORMATS.map(
+                (format) =>
+                  `<a href="${escapeHtml(exportHref(format))}">${
+                    { csv: "CSV", json: "JSON backup", vcf: "vCard" }[format]
+                  }</a>`
+              ).join(" | ")}</p>
+              ${
+                pipelines.length > 0
+                  ? `<p>Pipelines: ${pipelines
+                      .map(
+                        (pipeline) =>
+                          `<a href="/pipeline/${encodeURIComponent(
+                            pipeline.name
+                          )}">${escapeHtml(pipeline.name)}</a>`
+                      )
+                      .join(" | ")}</p>`
+                  : ""
+              }
+              ${renderSyncStatus()}
+              ${renderQuota()}
+              <p>MCP endpoint: <code>${
+                url.origin
+              }/mcp</code></p>
+            </div>
 
-        // Remove tag endpoint
-        if (url.pathname.startsWith("/tags/") && request.method === "DELETE") {
-          if (!ctx.authenticated) {
-            return new Response("Authentication required", { status: 401 });
-          }
+            ${
+              uniqueTags.length > 0
+                ? `
+              <div class="tags">
+                <strong>Filter by tag:</strong>
+                <a href="${escapeHtml(filterHref({
+                  tag: null,
+                }))}" class="tag ${!tag ? "active" : ""}">All (${
+                    follows.length
+                  })</a>
+                ${uniqueTags
+                  .map(
+                    (t) =>
+                      `<a href="${escapeHtml(filterHref({
+                        tag: t.tag,
+                      }))}" class="tag ${
+                        tag?.toLowerCase() === t.tag.toLowerCase()
+                          ? "active"
+                          : ""
+                      }">${escapeHtml(t.tag)} (${t.count})</a>`
+                  )
+                  .join("")}
+                ${
+                  tag
+                    ? `<a href="#" class="delete-tag" data-tag="${escapeHtml(
+                        tag
+                      )}" onclick="deleteTag(this.dataset.tag); return false;" title="Remove this tag from all contacts">✕ delete tag</a>`
+                    : ""
+                }
+              </div>
+            `
+                : ""
+            }
 
-          const tag = decodeURIComponent(url.pathname.split("/tags/")[1]);
+            ${
+              dueFollowUps.length > 0
+                ? `
+              <div class="due">
+                <h3>Due today / overdue</h3>
+                <ul>
+                  ${dueFollowUps
+                    .map(
+                      (f) =>
+                        `<li class="${f.status}"><strong>@${escapeHtml(
+                          f.username
+                        )}</strong> ${escapeHtml(f.name)} - ${
+                          f.status === "overdue" ? "overdue since" : "due"
+                        } ${(f.due_at as string).slice(0, 10)}${
+                          f.reason ? `: ${escapeHtml(f.reason)}` : ""
+                        }</li>`
+                    )
+                    .join("")}
+                </ul>
+              </div>
+            `
+                : ""
+            }
 
-          if (!tag) {
-            return new Response(JSON.stringify({ error: "Tag required" }), {
-              status: 400,
-              headers: { "Content-Type": "application/json" },
-            });
-          }
+            ${
+              webhookDeliveries.length > 0
+                ? `
+              <details class="webhooks">
+                <summary>Webhook deliveries (${
+                  webhookDeliveries.filter((d) => d.status === "failed").length
+                } failed of the last ${webhookDeliveries.length})</summary>
+                <table>
+                  ${webhookDeliveries
+                    .map(
+                      (d) =>
+                        `<tr class="${d.status}"><td>${escapeHtml(
+                          d.created_at.slice(0, 19).replace("T", " ")
+                        )}</td><td>${escapeHtml(d.event)}</td><td>${escapeHtml(
+                          d.url || ""
+                        )}</td><td>${d.status}${
+                          d.response_status ? ` (${d.response_status})` : ""
+                        }, ${d.attempts} attempt${d.attempts === 1 ? "" : "s"}${
+                          d.error ? `: ${escapeHtml(d.error)}` : ""
+                        }</td></tr>`
+                    )
+                    .join("")}
+                </table>
+              </details>
+            `
+                : ""
+            }
 
-          try {
-            const userDO = getUserDO();
-            const result = await userDO.removeTag(tag);
+            <form class="search" method="GET" action="/">
+              <input type="search" name="q" value="${escapeHtml(
+                q
+              )}" placeholder="Search names, bios, locations and notes">
+              ${
+                tag
+                  ? `<input type="hidden" name="tag" value="${escapeHtml(tag)}">`
+                  : ""
+              }
+              ${
+                relationship
+                  ? `<input type="hidden" name="relationship" value="${relationship}">`
+                  : ""
+              }
+              <button type="submit">Search</button>
+            </form>
 
-            return new Response(JSON.stringify(result), {
-              headers: { "Content-Type": "application/json" },
-            });
-          } catch (error) {
-            return new Response(JSON.stringify({ error: error.message }), {
-              status: 500,
-              headers: { "Content-Type": "application/json" },
-            });
-          }
-        }
+            <div class="tags">
+              <strong>Relationship:</strong>
+              <a href="${escapeHtml(filterHref({
+                relationship: null,
+              }))}" class="tag ${!relationship ? "active" : ""}">All</a>
+              ${RELATIONSHIPS.map(
+                (r) =>
+                  `<a href="${escapeHtml(filterHref({
+                    relationship: r,
+                  }))}" class="tag ${
+                    relationship === r ? "active" : ""
+                  }">${r}</a>`
+              ).join("")}
+            </div>
 
-        // Auth check endpoint for MCP
-        if (url.pathname === "/me" && request.method === "GET") {
-          if (!ctx.authenticated) {
-            return new Response("Authentication required", { status: 401 });
-          }
+            <div class="tags">
+              <strong>Has link:</strong>
+              <a href="${escapeHtml(filterHref({
+                has_link: null,
+              }))}" class="tag ${!hasLink ? "active" : ""}">Any</a>
+              ${LINK_TYPES.map(
+                (type) =>
+                  `<a href="${escapeHtml(filterHref({
+                    has_link: type,
+                  }))}" class="tag ${
+                    hasLink === type ? "active" : ""
+                  }">${LINK_ICONS[type]} ${type}</a>`
+              ).join("")}
+            </div>
 
-          return new Response(
-            JSON.stringify({
-              user: ctx.user,
-              authenticated: true,
-            }),
-            {
-              headers: { "Content-Type": "application/json" },
+            ${
+              tag || relationship || q || hasLink
+                ? `<p>Showing ${relationship ? `${relationship} ` : ""}contacts${
+                    tag ? ` with tag: <strong>${escapeHtml(tag)}</strong>` : ""
+                  }${hasLink ? ` with a ${hasLink} link` : ""}${
+                    q ? ` matching <strong>${escapeHtml(q)}</strong>` : ""
+                  } <a href="/" class="clear-filter">Clear filter</a></p>`
+                : ""
             }
-          );
-        }
-
-        // Main page with HTML table view
-        if (url.pathname === "/" && ctx.authenticated) {
-          try {
-            const userDO = getUserDO();
-            const tag = url.searchParams.get("tag");
-            const follows = await userDO.getFollows(tag || undefined);
-            const uniqueTags = await userDO.getUniqueTags();
-
-            const getSyncStatus = async () => {
-              try {
-                const lastSync = await userDO.getLastSyncTime();
-                const now = new Date();
-                const twentyFourHoursAgo = new Date(
-                  now.getTime() - 24 * 60 * 60 * 1000
-                );
-
-                const canSync =
-                  !lastSync ||
-                  lastSync < twentyFourHoursAgo ||
-                  ctx.user?.username === "janwilmake";
-
-                return { canSync, lastSync };
-              } catch (error) {
-                console.error("Error getting sync status:", error);
-                return null;
-              }
-            };
 
-            const syncStatus = await getSyncStatus();
+            <div class="bulk">
+              <span id="selected-count">0 selected</span>
+              <input id="bulk-tag" placeholder="tag" list="known-tags">
+              <datalist id="known-tags">${uniqueTags
+                .map((t) => `<option value="${escapeHtml(t.tag)}">`)
+                .join("")}</datalist>
+              <button onclick="bulkTag('add')">Add tag</button>
+              <button onclick="bulkTag('remove')">Remove tag</button>
+            </div>
 
-            return new Response(
-              `
-              <html>
-                <head>
-                  <title>X CRM</title>
-                  <style>
-                    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; margin: 20px; }
-                    .header { margin-bottom: 20px; padding-bottom: 20px; border-bottom: 1px solid #eee; }
-                    .tags { margin-bottom: 20px; }
-                    .tag { 
-                      display: inline-block; 
-                      background: #f0f0f0; 
-                      padding: 4px 8px; 
-                      margin: 2px; 
-                      border-radius: 4px; 
-                      text-decoration: none; 
-                      color: #333; 
-                      font-size: 12px;
-                    }
-                    .tag:hover { background: #e0e0e0; }
-                    .tag.active { background: #007acc; color: white; }
-                    .clear-filter { color: #007acc; text-decoration: none; margin-left: 10px; }
-                    table { border-collapse: collapse; width: 100%; }
-                    th, td { border: 1px solid #ddd; padding: 8px; text-align: left; }
-                    th { background-color: #f2f2f2; }
-                    .profile-pic { width: 32px; height: 32px; border-radius: 50%; }
-                    .verified { color: #1da1f2; }
-                    .blue-verified { color: #007acc; }
-                    .stats { font-size: 12px; color: #666; }
-                    .note { background: #fff3cd; padding: 4px; border-radius: 4px; font-size: 12px; }
-                    .tags-cell { font-size: 12px; }
-                    .tags-cell .tag { font-size: 10px; }
-                  </style>
-                </head>
-                <body>
-                  <div class="header">
-                    <h1>X CRM</h1>
-                    <p>Welcome, ${
-                      ctx.user.name
-                    }! | <a href="/logout">Logout</a></p>
-                    <p><a href="/follows">See follows in markdown</a></p>
-                    ${
-                      syncStatus?.canSync
-                        ? `<p><a href="/sync">Sync Follows</a></p>`
-                        : `<p>Sync available ${
-                            syncStatus?.lastSync
-                              ? "in " +
-                                Math.ceil(
-                                  (syncStatus.lastSync.getTime() +
-                                    24 * 60 * 60 * 1000 -
-                                    Date.now()) /
-                                    (60 * 60 * 1000)
-                                ) +
-                                " hours"
-                              : "soon"
-                          }</p>`
-                    }
-                    <p>MCP endpoint (needed for editing): <code>${
-                      url.origin
-                    }/mcp</code></p>
-                  </div>
-
-                  ${
-                    uniqueTags.length > 0
-                      ? `
-                    <div class="tags">
-                      <strong>Filter by tag:</strong>
-                      <a href="/" class="tag ${!tag ? "active" : ""}">All (${
-                          follows.length
-                        })</a>
-                      ${uniqueTags
-                        .map(
-                          (t) =>
-                            `<a href="?tag=${encodeURIComponent(
-                              t
-                            )}" class="tag ${
-                              tag === t ? "active" : ""
-                            }">${t}</a>`
-                        )
-                        .join("")}
-                    </div>
-                  `
-                      : ""
-                  }
-
-                  ${
-                    tag
-                      ? `<p>Showing follows with tag: <strong>${tag}</strong> <a href="/" class="clear-filter">Clear filter</a></p>`
-                      : ""
-                  }
-
-                  <table>
-                    <thead>
-                      <tr>
-                        <th>Profile</th>
-                        <th>Name</th>
-                        <th>Stats</th>
-                        <th>Location</th>
-                        <th>Bio</th>
-                        <th>Tags</th>
-                        <th>Note</th>
-                      </tr>
-                    </thead>
-                    <tbody>
-                      ${follows
-                        .map(
-                          (follow) => `
-                        <tr>
-                          <td>
-                            <img src="${
-                              follow.profile_image_url || ""
-                            }" class="profile-pic" onerror="this.style.display='none'">
-                          </td>
-                          <td>
-                            <strong>@${follow.username}</strong><br>
-                            ${follow.name || ""}
-                            ${
-                              follow.verified_type
-                                ? `<span class="verified">✓</span>`
+            <table>
+              <thead>
+                <tr>
+                  <th><input type="checkbox" onchange="selectAll(this.checked)" title="Select all"></th>
+                  <th>Profile</th>
+                  <th>Name</th>
+                  <th>Stats<br><span class="sortable" onclick="sortRows('followers', this)">followers ↕</span> <span class="sortable" onclick="sortRows('following', this)">following ↕</span> <span class="sortable" onclick="sortRows('growth', this)">growth ↕</span></th>
+                  <th>Location</th>
+                  <th>Bio</th>
+                  <th>Tags</th>
+                  <th>Note</th>
+                  ${customFields
+                    .map((field) => `<th>${escapeHtml(field.name)}</th>`)
+                    .join("")}
+                  <th><span class="sortable" onclick="sortRows('touched', this)">Last touched ↕</span></th>
+                </tr>
+              </thead>
+              <tbody>
+                ${follows
+                  .map(
+                    (follow) => `
+                  <tr data-username="${escapeHtml(
+                    follow.username
+                  )}" data-note="${escapeHtml(follow.note)}" data-tags="${escapeHtml(
+                      follow.tags
+                    )}" data-followers="${
+                      follow.followers_count || 0
+                    }" data-following="${
+                      follow.following_count || 0
+                    }" data-growth="${
+                      follow.followers_growth_30d || 0
+                    }" data-touched="${
+                      follow.last_interaction_at
+                        ? new Date(follow.last_interaction_at as string).getTime()
+                        : 0
+                    }">
+                    <td><input type="checkbox" class="select" onchange="updateSelection()"></td>
+                    <td>
+                      <img src="${escapeHtml(
+                        follow.profile_image_url
+                      )}" class="profile-pic" onerror="this.style.display='none'">
+                    </td>
+                    <td>
+                      <a href="/contact/${encodeURIComponent(
+                        follow.username as string
+                      )}"><strong>@${escapeHtml(follow.username)}</strong></a><br>
+                      ${escapeHtml(follow.name)}
+                      ${
+                        follow.verified_type
+                          ? `<span class="verified">✓</span>`
+                          : ""
+                      }
+                      ${
+                        follow.is_blue_verified
+                          ? `<span class="blue-verified">✓</span>`
+                          : ""
+                      }
+                      <br><span class="relationship">${escapeHtml(
+                        follow.relationship
+                      )}</span>
+                      ${
+                        (follow.links as ContactLink[] | undefined)?.length
+                          ? `<div class="links">${(
+                              follow.links as ContactLink[]
+                            )
+                              .map(
+                                (link) =>
+                                  `<a href="${escapeHtml(
+                                    link.url
+                                  )}" target="_blank" title="${escapeHtml(
+                                    link.label
+                                  )}">${LINK_ICONS[link.type]}</a>`
+                              )
+                              .join(" ")}</div>`
+                          : ""
+                      }
+                    </td>
+                    <td class="stats">
+                      ${
+                        follow.followers_count?.toLocaleString() || 0
+                      } followers<br>
+                      ${
+                        follow.following_count?.toLocaleString() || 0
+                      } following
+                      ${
+                        follow.followers_growth_30d
+                          ? `<br><span class="${
+                              (follow.followers_growth_30d as number) > 0
+                                ? "growth"
+                                : "decline"
+                            }">${
+                              (follow.followers_growth_30d as number) > 0 ? "+" : ""
+                            }${follow.followers_growth_30d.toLocaleString()} / 30d</span>`
+                          : ""
+                      }
+                      <br>${sparkline(
+                        followerSeries[follow.user_id as string] || []
+                      )}
+                    </td>
+                    <td>${escapeHtml(follow.location)}</td>
+                    <td style="max-width: 200px; font-size: 12px;">${escapeHtml(
+                      follow.description
+                    )}${
+                      follow.snippet
+                        ? `<div class="snippet">${escapeHtml(
+                            follow.snippet
+                          ).replace(/\*\*(.*?)\*\*/g, "<mark>$1</mark>")}</div>`
+                        : ""
+                    }</td>
+                    <td class="tags-cell">
+                      ${
+                        follow.tags
+                          ? (follow.tags as string)
+                              .split(",")
+                              .map((t) => t.trim())
+                              .map(
+                                (t) =>
+                                  `<a href="${escapeHtml(filterHref({
+                                    tag: t,
+                                  }))}" class="tag">${escapeHtml(t)}</a>`
+                              )
+                              .join(" ")
+                          : ""
+                      }
+                      <button class="edit" onclick="editField(this, 'tags')" title="Edit tags">✎</button>
+                    </td>
+                    <td>
+                      ${
+                        follow.note
+                          ? `<div class="note">${escapeHtml(follow.note)}</div>`
+                          : ""
+                      }
+                      <button class="edit" onclick="editField(this, 'note')" title="Edit note">✎ note</button>
+                      ${
+                        follow.follow_up_at
+                          ? `<div class="follow-up ${
+                              follow.follow_up_status
+                            }">Follow up ${(
+                              follow.follow_up_at as string
+                            ).slice(0, 10)}${
+                              follow.follow_up_reason
+                                ? `: ${escapeHtml(follow.follow_up_reason)}`
                                 : ""
-                            }
-                            ${
-                              follow.is_blue_verified
-                                ? `<span class="blue-verified">✓</span>`
-                                : ""
-                            }
-                          </td>
-                          <td class="stats">
-                            ${
-                              follow.followers_count?.toLocaleString() || 0
-                            } followers<br>
-                            ${
-                              follow.following_count?.toLocaleString() || 0
-                            } following
-                          </td>
-                          <td>${follow.location || ""}</td>
-                          <td style="max-width: 200px; font-size: 12px;">${
-                            follow.description || ""
-                          }</td>
-                          <td class="tags-cell">
-                            ${
-                              follow.tags
-                                ? follow.tags
-                                    .split(",")
-                                    .map((t) => t.trim())
-                                    .map(
-                                      (t) =>
-                                        `<a href="?tag=${encodeURIComponent(
-                                          t
-                                        )}" class="tag">${t}</a>`
-                                    )
-                                    .join(" ")
-                                : ""
-                            }
-                          </td>
-                          <td>
-                            ${
-                              follow.note
-                                ? `<div class="note">${follow.note}</div>`
-                                : ""
-                            }
-                          </td>
-                        </tr>
-                      `
-                        )
-                        .join("")}
-                    </tbody>
-                  </table>
-
-                  <p style="margin-top: 20px; color: #666; font-size: 12px;">
-                    Total: ${follows.length} follows
-                    ${tag ? ` with tag "${tag}"` : ""}
-                  </p>
-                </body>
-              </html>
-            `,
-              {
-                headers: { "Content-Type": "text/html;charset=utf8" },
-              }
-            );
-          } catch (error) {
-            console.error("Error loading follows:", error);
-            return new Response("Error loading follows", { status: 500 });
-          }
-        }
+                            }</div>`
+                          : ""
+                      }
+                    </td>
+                    ${customFields
+                      .map((field) => {
+                        const value = (follow.custom_fields || {})[
+                          field.name
+                        ];
+                        if (!value) return `<td></td>`;
+                        if (field.type === "url") {
+                          return `<td><a href="${escapeHtml(
+                            value
+                          )}" target="_blank">${escapeHtml(value)}</a></td>`;
+                        }
+                        if (field.type === "email") {
+                          return `<td><a href="mailto:${escapeHtml(
+                            value
+                          )}">${escapeHtml(value)}</a></td>`;
+                        }
+                        return `<td>${escapeHtml(value)}</td>`;
+                      })
+                      .join("")}
+                    <td class="stats">${
+                      follow.last_interaction_at
+                        ? `${Math.floor(
+                            (Date.now() -
+                              new Date(
+                                follow.last_interaction_at as string
+                              ).getTime()) /
+                              (24 * 60 * 60 * 1000)
+                          )} days ago`
+                        : "never"
+                    }</td>
+                  </tr>
+                `
+                  )
+                  .join("")}
+              </tbody>
+            </table>
 
-        // Read the homepage.html file
-        return new Response(html, {
+            <p style="margin-top: 20px; color: #666; font-size: 12px;">
+              Total: ${follows.length} ${relationship || "contacts"}
+              ${tag ? ` with tag "${escapeHtml(tag)}"` : ""}
+            </p>
+
+            <script>${EDITOR_SCRIPT}</script>
+          </body>
+        </html>
+      `,
+        {
           headers: { "Content-Type": "text/html;charset=utf8" },
-        });
-      },
-      { isLoginRequired: false }
-    ),
+        }
+      );
+    } catch (error) {
+      console.error("Error loading follows:", error);
+      return new Response("Error loading follows", { status: 500 });
+    }
+  }
+
+  // Read the homepage.html file
+  return new Response(html, {
+    headers: { "Content-Type": "text/html;charset=utf8" },
+  });
+};
+
+export default {
+  fetch: withMcp(
+    withSimplerAuth(handler, { isLoginRequired: false }),
     openapi,
     {
       serverInfo: {
@@ -803,12 +8950,67 @@ export default {
       authEndpoint: "/me",
       toolOperationIds: [
         "getFollows",
+        "searchContacts",
+        "getContact",
+        "getSyncStatus",
+        "getSyncChanges",
         "updateContact",
+        "addInteraction",
+        "getInteractions",
         "updateBulk",
+        "listFields",
+        "defineField",
+        "deleteField",
+        "getDueFollowUps",
+        "completeFollowUp",
         "removeTag",
+        "renameTag",
+        "mergeTags",
+        "importContacts",
+        "exportContacts",
+        "getHistory",
+        "revertChange",
+        "undoLastBatch",
+        "listPipelines",
+        "createPipeline",
+        "deletePipeline",
+        "setStage",
+        "getPipeline",
+        "listXLists",
+        "importXLists",
+        "addXList",
+        "removeXList",
+        "syncXList",
+        "getXListDrift",
+        "getChanges",
+        "listWorkspaces",
+        "createWorkspace",
+        "getWorkspace",
+        "createWorkspaceInvite",
+        "joinWorkspace",
+        "removeWorkspaceMember",
+        "publishTag",
+        "unpublishTag",
+        "publishNote",
+        "unpublishNote",
+        "listTweetTags",
+        "enableTweets",
+        "disableTweets",
+        "searchTweets",
+        "getRecentActivity",
+        "listWebhooks",
+        "createWebhook",
+        "deleteWebhook",
+        "getWebhookDeliveries",
+        "addContact",
+        "addManualContact",
+      ],
+      promptOperationIds: [
+        "researchContactPrompt",
+        "findPeoplePrompt",
+        "tagUntaggedPrompt",
       ],
-      promptOperationIds: [],
-      resourceOperationIds: [],
+      resourceOperationIds: ["getContactResource", "getTagResource"],
     }
   ),
 } satisfies ExportedHandler<Env>;
@@ -0,0 +1,231 @@
+// Where X data comes from, chosen with the X_PROVIDER env var
+export const X_PROVIDERS = ["twitterapi", "fixture"];
+
+export interface ProviderEnv {
+  X_PROVIDER?: string;
+  TWITTER_API_KEY?: string;
+  // Data served by the fixture provider, only bound in tests (see vitest.config.ts)
+  X_FIXTURES?: Fixtures;
+}
+
+export class TwitterApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+// One page of users. Users keep the twitterapi.io shape (id, userName, name,
+// profile_image_url_https, description, followers_count, ...) for every provider.
+export interface UsersPage {
+  users: any[];
+  has_next_page: boolean;
+  next_cursor: string | null;
+}
+
+// One page of X Lists, in the twitterapi.io shape (id, name, member_count, ...)
+export interface ListsPage {
+  lists: any[];
+  has_next_page: boolean;
+  next_cursor: string | null;
+}
+
+// Source of X data: followings, followers, user lookup, tweets and Lists
+export interface XProvider {
+  getFollowings(username: string, cursor: string | null): Promise<UsersPage>;
+  getFollowers(username: string, cursor: string | null): Promise<UsersPage>;
+  // Profile of a user, or null when the account doesn't exist
+  getUser(username: string): Promise<any | null>;
+  // Latest tweets of a user, in the twitterapi.io shape (id, text, createdAt, likeCount, ...)
+  getTweets(userId: string): Promise<any[]>;
+  getListMembers(listId: string, cursor: string | null): Promise<UsersPage>;
+  // Lists the user owns or follows
+  getOwnedLists(username: string, cursor: string | null): Promise<ListsPage>;
+}
+
+// twitterapi.io, authenticated with TWITTER_API_KEY
+export class TwitterApiProvider implements XProvider {
+  constructor(private apiKey: string) {}
+
+  async request(path: string, what: string) {
+    const response = await fetch(`https://api.twitterapi.io${path}`, {
+      headers: {
+        "X-API-Key": this.apiKey,
+      },
+    });
+
+    if (!response.ok) {
+      console.error(`API request failed with status ${response.status}`);
+      throw new TwitterApiError(
+        `Failed to fetch ${what}: ${response.status}`,
+        response.status
+      );
+    }
+
+    return (await response.json()) as any;
+  }
+
+  async getUserPage(
+    endpoint: "followings" | "followers",
+    username: string,
+    cursor: string | null
+  ): Promise<UsersPage> {
+    const data = await this.request(
+      `/twitter/user/${endpoint}?userName=${encodeURIComponent(username)}${
+        cursor ? `&cursor=${cursor}` : ""
+      }`,
+      endpoint
+    );
+
+    return {
+      users: data[endpoint] || [],
+      has_next_page: !!data.has_next_page,
+      next_cursor: data.next_cursor || null,
+    };
+  }
+
+  getFollowings(username: string, cursor: string | null) {
+    return this.getUserPage("followings", username, cursor);
+  }
+
+  getFollowers(username: string, cursor: string | null) {
+    return this.getUserPage("followers", username, cursor);
+  }
+
+  async getUser(username: string) {
+    try {
+      const data = await this.request(
+        `/twitter/user/info?userName=${encodeURIComponent(username)}`,
+        `user ${username}`
+      );
+      return data.data?.id ? data.data : null;
+    } catch (error) {
+      if (error instanceof TwitterApiError && error.status === 404) return null;
+      throw error;
+    }
+  }
+
+  async getTweets(userId: string) {
+    const data = await this.request(
+      `/twitter/user/last_tweets?userId=${userId}&includeReplies=true`,
+      `tweets of ${userId}`
+    );
+    return data.data?.tweets || data.tweets || [];
+  }
+
+  async getListMembers(listId: string, cursor: string | null) {
+    const data = await this.request(
+      `/twitter/list/members?listId=${listId}${cursor ? `&cursor=${cursor}` : ""}`,
+      `members of list ${listId}`
+    );
+
+    return {
+      users: data.members || data.users || [],
+      has_next_page: !!data.has_next_page,
+      next_cursor: data.next_cursor || null,
+    };
+  }
+
+  async getOwnedLists(username: string, cursor: string | null) {
+    const data = await this.request(
+      `/twitter/user/lists?userName=${encodeURIComponent(username)}${
+        cursor ? `&cursor=${cursor}` : ""
+      }`,
+      `lists of ${username}`
+    );
+
+    return {
+      lists: data.lists || data.data?.lists || [],
+      has_next_page: !!data.has_next_page,
+      next_cursor: data.next_cursor || null,
+    };
+  }
+}
+
+// Local data for offline development and tests. Followings, followers, Lists and
+// List members are arrays of pages, keyed by username or List id; the cursor is the page index.
+export interface Fixtures {
+  users?: Record<string, any>;
+  followings?: Record<string, any[][]>;
+  followers?: Record<string, any[][]>;
+  tweets?: Record<string, any[]>;
+  list_members?: Record<string, any[][]>;
+  lists?: Record<string, any[][]>;
+}
+
+export class FixtureProvider implements XProvider {
+  constructor(private fixtures: Fixtures) {}
+
+  getPage(
+    pages: any[][] | undefined,
+    what: string,
+    cursor: string | null
+  ): UsersPage {
+    if (!pages) {
+      throw new TwitterApiError(`Failed to fetch ${what}: 404`, 404);
+    }
+
+    const index = cursor ? parseInt(cursor, 10) : 0;
+    const hasNext = index + 1 < pages.length;
+    return {
+      users: pages[index] || [],
+      has_next_page: hasNext,
+      next_cursor: hasNext ? String(index + 1) : null,
+    };
+  }
+
+  async getFollowings(username: string, cursor: string | null) {
+    return this.getPage(this.fixtures.followings?.[username], "followings", cursor);
+  }
+
+  async getFollowers(username: string, cursor: string | null) {
+    return this.getPage(this.fixtures.followers?.[username], "followers", cursor);
+  }
+
+  async getUser(username: string) {
+    const key = Object.keys(this.fixtures.users || {}).find(
+      (name) => name.toLowerCase() === username.toLowerCase()
+    );
+    return (key && this.fixtures.users?.[key]) || null;
+  }
+
+  async getTweets(userId: string) {
+    return this.fixtures.tweets?.[userId] || [];
+  }
+
+  async getListMembers(listId: string, cursor: string | null) {
+    return this.getPage(
+      this.fixtures.list_members?.[listId],
+      `members of list ${listId}`,
+      cursor
+    );
+  }
+
+  async getOwnedLists(username: string, cursor: string | null) {
+    const { users, ...page } = this.getPage(
+      this.fixtures.lists?.[username],
+      `lists of ${username}`,
+      cursor
+    );
+    return { lists: users, ...page };
+  }
+}
+
+// Returns why the provider can't be used with this env, or null when it can
+export const providerConfigError = (env: ProviderEnv): string | null => {
+  const provider = env.X_PROVIDER || "twitterapi";
+  if (!X_PROVIDERS.includes(provider)) {
+    return `X_PROVIDER must be one of: ${X_PROVIDERS.join(", ")}`;
+  }
+  if (provider === "twitterapi" && !env.TWITTER_API_KEY) {
+    return "TWITTER_API_KEY not configured";
+  }
+  if (provider === "fixture" && !env.X_FIXTURES) {
+    return "X_FIXTURES not bound, the fixture provider is only for tests";
+  }
+  return null;
+};
+
+export const createProvider = (env: ProviderEnv): XProvider =>
+  env.X_PROVIDER === "fixture"
+    ? new FixtureProvider(env.X_FIXTURES)
+    : new TwitterApiProvider(env.TWITTER_API_KEY);
@@ -0,0 +1,79 @@
+// Who may sync how often and how many pages a sync may fetch, configured with env vars
+export interface SyncPolicyEnv {
+  // Hours between syncs, 24 by default
+  SYNC_COOLDOWN_HOURS?: string;
+  // Comma-separated X usernames that can sync without waiting for the cooldown
+  SYNC_ADMIN_USERNAMES?: string;
+  // Pages of followings and followers a single sync may fetch, 0 or unset for no limit
+  SYNC_MAX_PAGES?: string;
+}
+
+export interface SyncPolicy {
+  cooldownHours: number;
+  admins: string[];
+  // null when there is no limit
+  maxPages: number | null;
+}
+
+export const DEFAULT_SYNC_COOLDOWN_HOURS = 24;
+
+// Whether a user may start a sync, and when they may otherwise
+export interface SyncAllowance {
+  can_sync: boolean;
+  admin: boolean;
+  cooldown_hours: number;
+  next_sync_at: string | null;
+}
+
+const parseNumber = (value: string | undefined) =>
+  value === undefined || value.trim() === "" ? null : Number(value);
+
+// Returns why the sync policy vars can't be used, or null when they can
+export const syncPolicyConfigError = (env: SyncPolicyEnv): string | null => {
+  const cooldown = parseNumber(env.SYNC_COOLDOWN_HOURS);
+  if (cooldown !== null && !(cooldown >= 0)) {
+    return "SYNC_COOLDOWN_HOURS must be a number of hours";
+  }
+  const maxPages = parseNumber(env.SYNC_MAX_PAGES);
+  if (maxPages !== null && !(Number.isInteger(maxPages) && maxPages >= 0)) {
+    return "SYNC_MAX_PAGES must be a whole number, 0 for no limit";
+  }
+  return null;
+};
+
+export const getSyncPolicy = (env: SyncPolicyEnv): SyncPolicy => {
+  const maxPages = parseNumber(env.SYNC_MAX_PAGES);
+  return {
+    cooldownHours:
+      parseNumber(env.SYNC_COOLDOWN_HOURS) ?? DEFAULT_SYNC_COOLDOWN_HOURS,
+    admins: (env.SYNC_ADMIN_USERNAMES || "")
+      .split(",")
+      .map((username) => username.trim().replace(/^@/, "").toLowerCase())
+      .filter(Boolean),
+    maxPages: maxPages ? maxPages : null,
+  };
+};
+
+export const isSyncAdmin = (policy: SyncPolicy, username?: string) =>
+  !!username && policy.admins.includes(username.toLowerCase());
+
+// Admins can always sync, everyone else once per cooldown
+export const getSyncAllowance = (
+  policy: SyncPolicy,
+  username: string | undefined,
+  lastSync: Date | null,
+  now = new Date()
+): SyncAllowance => {
+  const admin = isSyncAdmin(policy, username);
+  const nextSyncAt = lastSync
+    ? new Date(lastSync.getTime() + policy.cooldownHours * 60 * 60 * 1000)
+    : null;
+  const canSync = admin || !nextSyncAt || nextSyncAt <= now;
+
+  return {
+    can_sync: canSync,
+    admin,
+    cooldown_hours: policy.cooldownHours,
+    next_sync_at: canSync ? null : nextSyncAt.toISOString(),
+  };
+};
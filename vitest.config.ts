@@ -0,0 +1,20 @@
+import { defineWorkersConfig } from "@cloudflare/vitest-pool-workers/config";
+import fixtures from "./fixtures/x.json";
+
+// Tests run in workerd against the fixture provider, so no API key or network is needed
+export default defineWorkersConfig({
+  test: {
+    poolOptions: {
+      workers: {
+        wrangler: { configPath: "./wrangler.jsonc" },
+        miniflare: {
+          bindings: {
+            X_PROVIDER: "fixture",
+            X_FIXTURES: fixtures,
+            TWITTER_API_KEY: "",
+          },
+        },
+      },
+    },
+  },
+});